@@ -1,30 +1,150 @@
-import React, { useState, useCallback } from 'react';
-import { AppState, GenerationStatus } from './types';
-import { generateProductContent, generateLifestyleImage } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AppState, BrandKit, Branding, CopyAngle, CopyVariant, EditableField, GeneratedProductContent, GenerationPreset, GenerationSettings, GenerationStatus, ImageVersionTree, LanguageCode, LocalizedCopy, MarketId, ProductPhoto, SavedListing, VariantField } from './types';
+import { generateProductContent, generateLifestyleImage, editLifestyleImage, regenerateField, translateListing, generateCopyVariants } from './services/geminiService';
+import { buildListing, createListingId, saveListing, updateListing } from './services/historyStore';
+import { MARKETS, getMarket, loadPreferredMarketId, savePreferredMarketId } from './services/markets';
+import { DEFAULT_LANGUAGE, LANGUAGES } from './services/languages';
+import { addVersion, createVersionTree, getCurrentVersion } from './services/imageVersions';
+import { CutoutMethod, SHADOW_LABELS, StudioShotOptions, createStudioShot } from './services/studioShot';
+import { toErrorInfo } from './services/errors';
+import { UsageSummary, getUsageSummary, quotaError, subscribeToUsage } from './services/usageStore';
+import { REMINDER_CHECK_MS, notifyDueReminders } from './services/postReminders';
+import { ALL_ANGLES, VARIANT_FIELDS } from './services/copyVariants';
+import { DEFAULT_GENERATION_SETTINGS, createPreset, loadGenerationSettings, loadPresets, saveGenerationSettings, savePresets } from './services/generationSettings';
+import { DEFAULT_BRANDING, deleteBrandKit, getAllBrandKits, loadActiveBrandKitId, saveActiveBrandKitId, saveBrandKit, toBranding } from './services/brandKitStore';
 import FileUpload from './components/FileUpload';
 import ResultCard from './components/ResultCard';
-import { SparklesIcon, TypeIcon, LoaderIcon } from './components/Icons';
+import HistorySidebar from './components/HistorySidebar';
+import BatchMode from './components/BatchMode';
+import BrandKitManager from './components/BrandKitManager';
+import ErrorNotice from './components/ErrorNotice';
+import StreamingPreview from './components/StreamingPreview';
+import UsageDashboard from './components/UsageDashboard';
+import ContentCalendar from './components/ContentCalendar';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel';
+import { SparklesIcon, TypeIcon, LoaderIcon, HistoryIcon, ChartIcon, CalendarIcon } from './components/Icons';
+
+const createInitialState = (): AppState => ({
+  status: GenerationStatus.IDLE,
+  data: null,
+  partialData: null,
+  error: null,
+  photos: [],
+  textInput: "",
+  isGeneratingImage: false,
+  imageError: null,
+  marketingImageUrl: null,
+  imageVersions: createVersionTree(),
+  branding: DEFAULT_BRANDING,
+  customPrice: null,
+  marketId: loadPreferredMarketId(),
+  language: DEFAULT_LANGUAGE,
+  translations: {},
+  translatingLanguages: [],
+  translationError: null,
+  variants: [],
+  isGeneratingVariants: false,
+  variantError: null,
+  settings: DEFAULT_GENERATION_SETTINGS,
+  activeListingId: null,
+});
+
+// Fields of the open listing that are written back to IndexedDB as the seller edits
+type PersistedFields = Pick<SavedListing, 'data' | 'photos' | 'customPrice' | 'marketingImageUrl' | 'imageVersions' | 'branding' | 'translations' | 'variants'>;
+
+const pickPersisted = (source: PersistedFields): PersistedFields => ({
+  data: source.data,
+  photos: source.photos,
+  customPrice: source.customPrice,
+  marketingImageUrl: source.marketingImageUrl,
+  imageVersions: source.imageVersions,
+  branding: source.branding,
+  translations: source.translations,
+  variants: source.variants,
+});
+
+const isSamePersisted = (a: PersistedFields, b: PersistedFields) =>
+  (Object.keys(a) as (keyof PersistedFields)[]).every(key => a[key] === b[key]);
 
 const App: React.FC = () => {
-  const [state, setState] = useState<AppState>({
-    status: GenerationStatus.IDLE,
-    data: null,
-    error: null,
-    selectedImage: null,
-    imagePreviewUrl: null,
-    textInput: "",
-    isGeneratingImage: false,
-    marketingImageUrl: null,
-  });
-
-  const handleFileSelect = useCallback((file: File) => {
-    const previewUrl = URL.createObjectURL(file);
-    setState(prev => ({
-      ...prev,
-      selectedImage: file,
-      imagePreviewUrl: previewUrl,
-      error: null
-    }));
+  const [state, setState] = useState<AppState>(createInitialState);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  // Market for new generations; an open listing keeps the one it was priced in (state.marketId)
+  const [selectedMarketId, setSelectedMarketId] = useState<MarketId>(loadPreferredMarketId);
+  const market = getMarket(selectedMarketId);
+  // Languages for new generations; the first one is the main listing, the rest become tabs
+  const [selectedLanguages, setSelectedLanguages] = useState<LanguageCode[]>([DEFAULT_LANGUAGE]);
+  // A/B variants written per field after each new listing, one per angle; 0 for none
+  const [variantCount, setVariantCount] = useState(0);
+  // Style for new generations; an open listing keeps the settings it was made with (state.settings)
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings);
+  const [presets, setPresets] = useState<GenerationPreset[]>(loadPresets);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [activeBrandKitId, setActiveBrandKitId] = useState<string | null>(loadActiveBrandKitId);
+  const [isBrandKitOpen, setIsBrandKitOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  // Kept fresh after every model call so the Generate button can show a reached limit up front
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null);
+  const listingLimit = usageSummary && quotaError(usageSummary, 'listing');
+  // Brand for new generations; an open listing keeps the snapshot it was made with (state.branding)
+  const activeBrandKit = brandKits.find(kit => kit.id === activeBrandKitId);
+  const activeBranding = activeBrandKit ? toBranding(activeBrandKit) : DEFAULT_BRANDING;
+  // Snapshot of what is already in IndexedDB, so opening a listing doesn't re-save it
+  const persistedRef = useRef<PersistedFields | null>(null);
+  // In-flight listing and photo requests, so the seller can cancel them
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const imageAbortRef = useRef<AbortController | null>(null);
+
+  // Starts a cancellable request, cancelling any earlier one of the same kind
+  const startRequest = (ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    const controller = new AbortController();
+    ref.current = controller;
+    return controller.signal;
+  };
+
+  useEffect(() => {
+    const load = () => getUsageSummary()
+      .then(setUsageSummary)
+      .catch(err => console.error("Usage load error:", err));
+    load();
+    return subscribeToUsage(load);
+  }, []);
+
+  // Post reminders come from this tab, so they only show while the app is open
+  useEffect(() => {
+    const check = () => notifyDueReminders().catch(err => console.error("Reminder error:", err));
+    check();
+    const timer = setInterval(check, REMINDER_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    getAllBrandKits()
+      .then(setBrandKits)
+      .catch(err => console.error("Brand kit load error:", err));
+  }, []);
+
+  // Keep the open listing in IndexedDB in sync with edits (debounced for typing)
+  useEffect(() => {
+    const listingId = state.activeListingId;
+    if (!listingId || !state.data) return;
+
+    const snapshot = pickPersisted({ ...state, data: state.data });
+    if (persistedRef.current && isSamePersisted(persistedRef.current, snapshot)) return;
+
+    const timer = setTimeout(() => {
+      persistedRef.current = snapshot;
+      updateListing(listingId, snapshot).catch(err => console.error("History save error:", err));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [state.activeListingId, state.data, state.photos, state.customPrice, state.marketingImageUrl, state.imageVersions, state.branding, state.translations, state.variants]);
+
+  // Adding, removing, reordering and captioning photos all replace the gallery
+  const handlePhotosChange = useCallback((photos: ProductPhoto[]) => {
+    setState(prev => ({ ...prev, photos, error: null }));
   }, []);
 
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -32,75 +152,377 @@ const App: React.FC = () => {
   };
 
   const handleGenerate = async () => {
-    if (!state.selectedImage && !state.textInput.trim()) {
-      setState(prev => ({ ...prev, error: "Please upload an image or enter a description first." }));
+    if (state.photos.length === 0 && !state.textInput.trim()) {
+      setState(prev => ({ ...prev, error: { code: 'invalidInput', message: "Please upload an image or enter a description first." } }));
       return;
     }
 
+    // Detach the open listing first: the fields cleared below would otherwise be saved over it,
+    // losing its images and history even if this generation fails or is cancelled. A photo still
+    // being made for it is cancelled, so it can't land on the new listing.
+    imageAbortRef.current?.abort();
+    persistedRef.current = null;
     setState(prev => ({ 
       ...prev, 
       status: GenerationStatus.LOADING, 
+      activeListingId: null,
+      partialData: null,
       error: null, 
+      marketId: selectedMarketId,
+      branding: activeBranding,
+      translationError: null,
+      variants: [],
+      variantError: null,
+      settings: generationSettings,
       marketingImageUrl: null, // Reset previous image
-      isGeneratingImage: false 
+      imageVersions: createVersionTree(),
+      isGeneratingImage: false,
+      imageError: null
     }));
 
+    const [primaryLanguage, ...extraLanguages] = selectedLanguages;
+    const signal = startRequest(generationAbortRef);
+    // Created up front so the generation's usage is billed to the listing it makes
+    const newListingId = createListingId();
+
     try {
-      const result = await generateProductContent(state.selectedImage, state.textInput);
+      const { data: result, photos } = await generateProductContent(state.photos, state.textInput, {
+        market,
+        language: primaryLanguage,
+        brand: activeBranding,
+        signal,
+        listingId: newListingId,
+        settings: generationSettings,
+        onPartial: partial => setState(prev => ({ ...prev, partialData: partial })),
+      });
+      const listing = buildListing({
+        id: newListingId,
+        textInput: state.textInput,
+        photos,
+        data: result,
+        branding: activeBranding,
+        marketId: selectedMarketId,
+        language: primaryLanguage,
+        settings: generationSettings,
+      });
+      // A failed save should never block the seller from seeing their listing
+      const saved = await saveListing(listing).then(() => true, err => {
+        console.error("History save error:", err);
+        return false;
+      });
+      persistedRef.current = pickPersisted(listing);
+      const listingId = saved ? listing.id : null;
+
       setState(prev => ({
         ...prev,
         status: GenerationStatus.SUCCESS,
-        data: result
+        data: result,
+        partialData: null,
+        photos,
+        customPrice: null,
+        language: primaryLanguage,
+        translations: {},
+        variants: [],
+        activeListingId: listingId
       }));
       // Scroll to top on mobile when results load
       window.scrollTo({ top: 0, behavior: 'smooth' });
-    } catch (err: any) {
+      extraLanguages.forEach(language => translateInto(language, result, selectedMarketId, listingId, activeBranding, generationSettings));
+      if (variantCount > 0) {
+        writeVariants(result, Object.keys(VARIANT_FIELDS) as VariantField[], ALL_ANGLES.slice(0, variantCount), {
+          marketId: selectedMarketId, language: primaryLanguage, listingId, brand: activeBranding, settings: generationSettings,
+        });
+      }
+    } catch (err) {
+      const error = toErrorInfo(err);
       setState(prev => ({
         ...prev,
-        status: GenerationStatus.ERROR,
-        error: err.message || "Something went wrong. Please try again."
+        status: error.code === 'cancelled' ? GenerationStatus.IDLE : GenerationStatus.ERROR,
+        partialData: null,
+        error: error.code === 'cancelled' ? null : error
       }));
     }
   };
 
+  const handleCancelGenerate = () => generationAbortRef.current?.abort();
+  const handleCancelImage = () => imageAbortRef.current?.abort();
+
+  // Shared failure path for every photo action; a cancel just clears the spinner
+  const handleImageFailure = (err: unknown) => {
+    const error = toErrorInfo(err);
+    setState(prev => ({ ...prev, isGeneratingImage: false, imageError: error.code === 'cancelled' ? null : error }));
+  };
+
   const handleGenerateImage = async (editInstruction: string = "") => {
     if (!state.data) return;
 
-    setState(prev => ({ ...prev, isGeneratingImage: true }));
+    setState(prev => ({ ...prev, isGeneratingImage: true, imageError: null }));
+
+    // Edits build on the version being shown; a fresh shot starts from the upload
+    const current = getCurrentVersion(state.imageVersions);
+    const signal = startRequest(imageAbortRef);
 
     try {
-      const imageUrl = await generateLifestyleImage(
-        state.selectedImage, 
-        state.data.productName,
-        state.data.shortDescription,
-        editInstruction
-      );
+      const imageUrl = editInstruction && current
+        ? await editLifestyleImage(current.imageUrl, editInstruction, "1:1", signal, state.activeListingId)
+        : await generateLifestyleImage(
+            state.photos[0]?.file ?? null,
+            state.data.productName,
+            state.data.shortDescription,
+            editInstruction,
+            "1:1",
+            signal,
+            state.activeListingId
+          );
       
       setState(prev => ({
         ...prev,
         isGeneratingImage: false,
-        marketingImageUrl: imageUrl
+        marketingImageUrl: imageUrl,
+        imageVersions: addVersion(prev.imageVersions, imageUrl, editInstruction)
       }));
-    } catch (err: any) {
-        alert("Could not generate image: " + err.message);
-        setState(prev => ({ ...prev, isGeneratingImage: false }));
+    } catch (err) {
+      handleImageFailure(err);
     }
   };
 
-  const resetApp = () => {
-    setState({
-        status: GenerationStatus.IDLE,
-        data: null,
-        error: null,
-        selectedImage: null,
-        imagePreviewUrl: null,
-        textInput: "",
+  // Plain-background cut-outs of the cover photo join the same version history
+  const handleCreateStudioShot = async (options: StudioShotOptions): Promise<CutoutMethod | null> => {
+    const cover = state.photos[0]?.file;
+    if (!state.data || !cover) return null;
+
+    setState(prev => ({ ...prev, isGeneratingImage: true, imageError: null }));
+    const signal = startRequest(imageAbortRef);
+    try {
+      const { imageUrl, method } = await createStudioShot(cover, state.data.productName, options, signal, state.activeListingId);
+      const label = `Plain ${options.background} background, ${SHADOW_LABELS[options.shadow].toLowerCase()}`;
+      setState(prev => ({
+        ...prev,
         isGeneratingImage: false,
-        marketingImageUrl: null,
+        marketingImageUrl: imageUrl,
+        imageVersions: addVersion(prev.imageVersions, imageUrl, label)
+      }));
+      return method;
+    } catch (err) {
+      handleImageFailure(err);
+      return null;
+    }
+  };
+
+  // Undo, redo and picking an older version all move the current photo
+  const handleImageVersionsChange = (imageVersions: ImageVersionTree) => {
+    setState(prev => ({
+      ...prev,
+      imageVersions,
+      marketingImageUrl: getCurrentVersion(imageVersions)?.imageUrl ?? null,
+    }));
+  };
+
+  // Choosing a kit also rebrands the listing that is open
+  const handleSelectBrandKit = (id: string | null) => {
+    const kit = brandKits.find(candidate => candidate.id === id);
+    saveActiveBrandKitId(kit ? kit.id : null);
+    setActiveBrandKitId(kit ? kit.id : null);
+    setState(prev => ({ ...prev, branding: kit ? toBranding(kit) : DEFAULT_BRANDING }));
+  };
+
+  const handleSaveBrandKit = async (kit: BrandKit) => {
+    const saved = await saveBrandKit(kit);
+    setBrandKits(await getAllBrandKits());
+    saveActiveBrandKitId(saved.id);
+    setActiveBrandKitId(saved.id);
+    setState(prev => ({ ...prev, branding: toBranding(saved) }));
+  };
+
+  const handleDeleteBrandKit = async (id: string) => {
+    await deleteBrandKit(id);
+    setBrandKits(prev => prev.filter(kit => kit.id !== id));
+    if (id === activeBrandKitId) {
+      saveActiveBrandKitId(null);
+      setActiveBrandKitId(null);
+    }
+  };
+
+  const handleDataChange = (changes: Partial<GeneratedProductContent>) => {
+    setState(prev => (prev.data ? { ...prev, data: { ...prev.data, ...changes } } : prev));
+  };
+
+  // Passing null removes the translation
+  const handleTranslationChange = (language: LanguageCode, changes: Partial<LocalizedCopy> | null) => {
+    setState(prev => {
+      const { [language]: current, ...rest } = prev.translations;
+      if (!changes) return { ...prev, translations: rest };
+      if (!current) return prev;
+      return { ...prev, translations: { ...rest, [language]: { ...current, ...changes } } };
     });
+  };
+
+  // Runs in the background; the result is dropped if the seller has moved on to another listing
+  const translateInto = async (
+    language: LanguageCode,
+    source: GeneratedProductContent,
+    marketId: MarketId,
+    listingId: string | null,
+    brand: Branding,
+    settings: GenerationSettings
+  ) => {
+    setState(prev => ({
+      ...prev,
+      translatingLanguages: [...prev.translatingLanguages, language],
+      translationError: null,
+    }));
+
+    try {
+      const copy = await translateListing(source, language, { market: getMarket(marketId), brand, listingId, settings });
+      setState(prev => ({
+        ...prev,
+        translatingLanguages: prev.translatingLanguages.filter(code => code !== language),
+        translations: prev.data && prev.activeListingId === listingId
+          ? { ...prev.translations, [language]: copy }
+          : prev.translations,
+      }));
+    } catch (err) {
+      setState(prev => ({
+        ...prev,
+        translatingLanguages: prev.translatingLanguages.filter(code => code !== language),
+        translationError: toErrorInfo(err, `Could not translate into ${LANGUAGES[language].label}.`),
+      }));
+    }
+  };
+
+  const handleTranslate = (language: LanguageCode) => {
+    if (state.data) translateInto(language, state.data, state.marketId, state.activeListingId, state.branding, state.settings);
+  };
+
+  // Like translations, runs in the background and is dropped if another listing has been opened
+  const writeVariants = async (
+    source: GeneratedProductContent,
+    fields: VariantField[],
+    angles: CopyAngle[],
+    target: { marketId: MarketId; language: LanguageCode; listingId: string | null; brand: Branding; settings: GenerationSettings }
+  ) => {
+    setState(prev => ({ ...prev, isGeneratingVariants: true, variantError: null }));
+    try {
+      const variants = await generateCopyVariants(source, fields, angles, {
+        market: getMarket(target.marketId),
+        language: target.language,
+        brand: target.brand,
+        listingId: target.listingId,
+        settings: target.settings,
+      });
+      setState(prev => ({
+        ...prev,
+        isGeneratingVariants: false,
+        variants: prev.data && prev.activeListingId === target.listingId ? [...prev.variants, ...variants] : prev.variants,
+      }));
+    } catch (err) {
+      setState(prev => ({ ...prev, isGeneratingVariants: false, variantError: toErrorInfo(err, 'Could not write the variants.') }));
+    }
+  };
+
+  const handleGenerateVariants = (fields: VariantField[], angles: CopyAngle[]) => {
+    if (!state.data) return;
+    writeVariants(state.data, fields, angles, {
+      marketId: state.marketId, language: state.language, listingId: state.activeListingId, brand: state.branding, settings: state.settings,
+    });
+  };
+
+  const handleVariantsChange = (variants: CopyVariant[]) => {
+    setState(prev => ({ ...prev, variants }));
+  };
+
+  // Errors propagate so the section being regenerated can show them inline. Like translations,
+  // the result is dropped if another listing has been opened meanwhile.
+  const handleRegenerateField = async (field: EditableField, instruction: string, language: LanguageCode) => {
+    if (!state.data) return;
+    const listingId = state.activeListingId;
+    const options = { market: getMarket(state.marketId), language, brand: state.branding, listingId, settings: state.settings };
+
+    if (language === state.language) {
+      const value = await regenerateField(state.data, field, instruction, options);
+      setState(prev => (prev.data && prev.activeListingId === listingId ? { ...prev, data: { ...prev.data, [field]: value } } : prev));
+      return;
+    }
+
+    const value = await regenerateField({ ...state.data, ...state.translations[language] }, field, instruction, options);
+    setState(prev => {
+      const current = prev.translations[language];
+      if (!current || prev.activeListingId !== listingId) return prev;
+      return { ...prev, translations: { ...prev.translations, [language]: { ...current, [field]: value } } };
+    });
+  };
+
+  const toggleLanguage = (language: LanguageCode) => {
+    setSelectedLanguages(prev => {
+      if (!prev.includes(language)) return [...prev, language];
+      // Always keep at least one language selected
+      return prev.length > 1 ? prev.filter(code => code !== language) : prev;
+    });
+  };
+
+  const handleMarketChange = (marketId: MarketId) => {
+    savePreferredMarketId(marketId);
+    setSelectedMarketId(marketId);
+  };
+
+  const handleSettingsChange = (settings: GenerationSettings) => {
+    saveGenerationSettings(settings);
+    setGenerationSettings(settings);
+  };
+
+  const handleSavePreset = (name: string) => {
+    const next = [...presets, createPreset(name, generationSettings)];
+    savePresets(next);
+    setPresets(next);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    const next = presets.filter(preset => preset.id !== id);
+    savePresets(next);
+    setPresets(next);
+  };
+
+  const handleCustomPriceChange = (customPrice: number) => {
+    setState(prev => ({ ...prev, customPrice }));
+  };
+
+  const resetApp = () => {
+    generationAbortRef.current?.abort();
+    imageAbortRef.current?.abort();
+    setState(createInitialState());
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }
 
+  const handleOpenListing = (listing: SavedListing) => {
+    generationAbortRef.current?.abort();
+    imageAbortRef.current?.abort();
+    persistedRef.current = pickPersisted(listing);
+    setState({
+      ...createInitialState(),
+      status: GenerationStatus.SUCCESS,
+      data: listing.data,
+      photos: listing.photos,
+      textInput: listing.textInput,
+      marketingImageUrl: listing.marketingImageUrl,
+      imageVersions: listing.imageVersions,
+      branding: listing.branding,
+      customPrice: listing.customPrice ?? null,
+      marketId: listing.marketId,
+      language: listing.language,
+      translations: listing.translations,
+      variants: listing.variants,
+      settings: listing.settings,
+      activeListingId: listing.id,
+    });
+    setIsHistoryOpen(false);
+    setMode('single');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDeleteListing = (id: string) => {
+    if (id === state.activeListingId) resetApp();
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col items-center">
       {/* Header */}
@@ -115,12 +537,106 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold text-slate-900 tracking-tight">Merchant<span className="text-indigo-600">AI</span></h1>
           </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setIsCalendarOpen(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 active:scale-95 transition-all"
+            >
+              <CalendarIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">Calendar</span>
+            </button>
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 active:scale-95 transition-all"
+            >
+              <ChartIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">Usage</span>
+            </button>
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 active:scale-95 transition-all"
+            >
+              <HistoryIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">History</span>
+            </button>
+          </div>
         </div>
       </header>
 
+      <HistorySidebar
+        isOpen={isHistoryOpen}
+        activeListingId={state.activeListingId}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpenListing={handleOpenListing}
+        onDeleteListing={handleDeleteListing}
+      />
+
       {/* Main Content */}
       <main className="w-full max-w-5xl px-4 py-4 md:py-8 flex-1">
-        <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 lg:gap-12">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-5 md:mb-6">
+          <div className="inline-flex p-1 bg-slate-200/60 rounded-xl text-sm font-semibold">
+            {(['single', 'batch'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-4 py-1.5 rounded-lg transition-all ${mode === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {option === 'single' ? 'Single Listing' : 'Bulk Catalog'}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-500">
+              Brand
+              <select
+                value={activeBrandKit?.id ?? ''}
+                onChange={(e) => handleSelectBrandKit(e.target.value || null)}
+                className="px-3 py-1.5 text-sm font-semibold text-slate-700 border border-slate-200 rounded-lg bg-white max-w-[10rem]"
+              >
+                <option value="">No brand kit</option>
+                {brandKits.map(kit => (
+                  <option key={kit.id} value={kit.id}>{kit.businessName}</option>
+                ))}
+              </select>
+              <button onClick={() => setIsBrandKitOpen(true)} className="text-indigo-600 font-semibold hover:text-indigo-800">
+                Manage
+              </button>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-500">
+              Selling in
+              <select
+                value={selectedMarketId}
+                onChange={(e) => handleMarketChange(e.target.value as MarketId)}
+                className="px-3 py-1.5 text-sm font-semibold text-slate-700 border border-slate-200 rounded-lg bg-white"
+              >
+                {Object.values(MARKETS).map(option => (
+                  <option key={option.id} value={option.id}>{option.country} ({option.currencySymbol})</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        {isUsageOpen && <UsageDashboard onClose={() => setIsUsageOpen(false)} />}
+
+        {isCalendarOpen && <ContentCalendar activeListingId={state.activeListingId} onClose={() => setIsCalendarOpen(false)} />}
+
+        {isBrandKitOpen && (
+          <BrandKitManager
+            kits={brandKits}
+            activeKitId={activeBrandKitId}
+            onClose={() => setIsBrandKitOpen(false)}
+            onSave={handleSaveBrandKit}
+            onDelete={handleDeleteBrandKit}
+          />
+        )}
+
+        {/* Kept mounted while hidden so a running batch survives switching tabs */}
+        <div className={mode === 'batch' ? '' : 'hidden'}>
+          <BatchMode branding={activeBranding} market={market} language={selectedLanguages[0]} settings={generationSettings} onOpenListing={handleOpenListing} />
+        </div>
+
+        <div className={`grid grid-cols-1 lg:grid-cols-12 gap-8 lg:gap-12 ${mode === 'single' ? '' : 'hidden'}`}>
           
           {/* LEFT COLUMN: Inputs */}
           <div className={`lg:col-span-5 flex flex-col gap-5 md:gap-6 ${state.status === GenerationStatus.SUCCESS ? 'hidden lg:flex' : ''}`}>
@@ -129,12 +645,8 @@ const App: React.FC = () => {
               <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
                 1. Product Image
               </h2>
-              <p className="text-sm text-slate-500">Upload a clear photo of your item.</p>
-              <FileUpload 
-                onFileSelect={handleFileSelect} 
-                selectedFile={state.selectedImage}
-                previewUrl={state.imagePreviewUrl}
-              />
+              <p className="text-sm text-slate-500">Upload clear photos of your item. The first one is the cover.</p>
+              <FileUpload photos={state.photos} onPhotosChange={handlePhotosChange} />
             </div>
 
             <div className="relative py-2">
@@ -148,7 +660,7 @@ const App: React.FC = () => {
 
             <div className="space-y-2">
               <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
-                2. Details <span className="text-xs font-normal text-slate-400">(Optional if image provided)</span>
+                2. Details <span className="text-xs font-normal text-slate-400">(Optional if photos provided)</span>
               </h2>
               <div className="relative group">
                 <div className="absolute top-3 left-3 text-slate-400 group-focus-within:text-indigo-500 transition-colors">
@@ -163,20 +675,76 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {state.error && (
-              <div className="bg-red-50 text-red-600 p-4 rounded-xl text-sm border border-red-100 flex items-start gap-2 animate-shake">
-                <span className="shrink-0">⚠️</span> 
-                <span>{state.error}</span>
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold text-slate-800">3. Languages</h2>
+              <p className="text-sm text-slate-500">The first language you pick is the main listing; the others appear as tabs.</p>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(LANGUAGES).map(option => {
+                  const position = selectedLanguages.indexOf(option.code);
+                  return (
+                    <button
+                      key={option.code}
+                      onClick={() => toggleLanguage(option.code)}
+                      className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-all active:scale-95 ${position >= 0 ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+                      title={option.label}
+                    >
+                      {option.nativeName}{position === 0 && selectedLanguages.length > 1 ? ' · main' : ''}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <GenerationSettingsPanel
+              settings={generationSettings}
+              onChange={handleSettingsChange}
+              presets={presets}
+              onSavePreset={handleSavePreset}
+              onDeletePreset={handleDeletePreset}
+              listingSettings={state.data ? state.settings : null}
+            />
+
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold text-slate-800">5. A/B Variants</h2>
+              <p className="text-sm text-slate-500">Extra versions of the caption and short description, each from a different selling angle, to test on different WhatsApp groups.</p>
+              <div className="inline-flex p-1 bg-slate-200/60 rounded-xl text-sm font-semibold">
+                {[0, 2, 3, ALL_ANGLES.length].map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setVariantCount(count)}
+                    className={`px-3 py-1.5 rounded-lg transition-all ${variantCount === count ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    {count === 0 ? 'None' : `${count} each`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* A reached limit is shown once, by the notice below */}
+            {state.error && !(listingLimit && state.error.code === 'limitReached') && (
+              <ErrorNotice
+                error={state.error}
+                onRetry={handleGenerate}
+                onDismiss={() => setState(prev => ({ ...prev, error: null }))}
+                className="animate-shake"
+              />
+            )}
+
+            {listingLimit && state.status !== GenerationStatus.LOADING && (
+              <div className="bg-amber-50 text-amber-800 p-4 rounded-xl text-sm border border-amber-100">
+                <p className="font-semibold">Limit reached</p>
+                <p>{listingLimit.message}</p>
+                <button onClick={() => setIsUsageOpen(true)} className="mt-1 text-xs font-semibold underline">View usage</button>
               </div>
             )}
 
             <button
               onClick={handleGenerate}
-              disabled={state.status === GenerationStatus.LOADING}
+              disabled={state.status === GenerationStatus.LOADING || Boolean(listingLimit)}
               className={`
                 w-full py-4 rounded-xl font-bold text-white shadow-lg shadow-indigo-200
                 flex items-center justify-center gap-2 transition-all transform active:scale-[0.98] touch-manipulation
-                ${state.status === GenerationStatus.LOADING 
+                ${state.status === GenerationStatus.LOADING || listingLimit
                   ? 'bg-indigo-400 cursor-not-allowed' 
                   : 'bg-indigo-600 hover:bg-indigo-700 hover:shadow-indigo-300'
                 }
@@ -192,8 +760,16 @@ const App: React.FC = () => {
                 </>
               )}
             </button>
+            {state.status === GenerationStatus.LOADING && (
+              <button
+                onClick={handleCancelGenerate}
+                className="w-full -mt-2 py-2 rounded-xl text-sm font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100"
+              >
+                Cancel
+              </button>
+            )}
             <p className="text-center text-xs text-slate-400 lg:hidden">
-                Prices will be estimated in ₦ based on Jumia rates.
+                Prices will be estimated in {market.currencySymbol} based on {market.benchmarkMarketplace} rates.
             </p>
           </div>
 
@@ -209,11 +785,15 @@ const App: React.FC = () => {
               </div>
             )}
 
-            {state.status === GenerationStatus.LOADING && (
+            {state.status === GenerationStatus.LOADING && state.partialData && (
+              <StreamingPreview partial={state.partialData} />
+            )}
+
+            {state.status === GenerationStatus.LOADING && !state.partialData && (
               <div className="h-[50vh] lg:h-full flex flex-col items-center justify-center min-h-[300px] animate-pulse">
                 <div className="w-12 h-12 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin mb-6"></div>
                 <h3 className="text-lg font-semibold text-slate-700">Analyzing your product...</h3>
-                <p className="text-sm text-slate-500 mt-2">Checking Jumia prices & crafting copy.</p>
+                <p className="text-sm text-slate-500 mt-2">Checking {market.benchmarkMarketplace} prices & crafting copy.</p>
               </div>
             )}
 
@@ -227,11 +807,39 @@ const App: React.FC = () => {
                         ← Create New Listing
                     </button>
                 </div>
+                {/* Keyed so a discount, call to action or template picked for one listing doesn't carry over to the next */}
                 <ResultCard 
+                    key={state.activeListingId ?? undefined}
                     data={state.data} 
                     marketingImageUrl={state.marketingImageUrl}
+                    imageVersions={state.imageVersions}
+                    onImageVersionsChange={handleImageVersionsChange}
                     isGeneratingImage={state.isGeneratingImage}
                     onGenerateImage={handleGenerateImage}
+                    onCreateStudioShot={handleCreateStudioShot}
+                    onCancelImage={handleCancelImage}
+                    imageError={state.imageError}
+                    onDismissImageError={() => setState(prev => ({ ...prev, imageError: null }))}
+                    branding={state.branding}
+                    onManageBrandKits={() => setIsBrandKitOpen(true)}
+                    customPrice={state.customPrice ?? state.data.suggestedPrice.recommended}
+                    onCustomPriceChange={handleCustomPriceChange}
+                    activeListingId={state.activeListingId}
+                    photos={state.photos}
+                    onPhotosChange={handlePhotosChange}
+                    onDataChange={handleDataChange}
+                    onRegenerateField={handleRegenerateField}
+                    language={state.language}
+                    translations={state.translations}
+                    translatingLanguages={state.translatingLanguages}
+                    translationError={state.translationError}
+                    onTranslate={handleTranslate}
+                    onTranslationChange={handleTranslationChange}
+                    variants={state.variants}
+                    isGeneratingVariants={state.isGeneratingVariants}
+                    variantError={state.variantError}
+                    onGenerateVariants={handleGenerateVariants}
+                    onVariantsChange={handleVariantsChange}
                 />
               </>
             )}
@@ -241,7 +849,7 @@ const App: React.FC = () => {
 
       {/* Footer */}
       <footer className="w-full py-6 text-center text-slate-400 text-xs border-t border-slate-200 bg-white">
-        <p>© {new Date().getFullYear()} MerchantAI. Built for Nigerian sellers.</p>
+        <p>© {new Date().getFullYear()} MerchantAI. Built for sellers in {Object.values(MARKETS).map(option => option.country).join(', ')}.</p>
       </footer>
     </div>
   );
@@ -0,0 +1,262 @@
+import React, { useRef, useState } from 'react';
+import { BatchItem, BatchItemStatus, Branding, GenerationSettings, LanguageCode, MarketProfile, SavedListing } from '../types';
+import { generateProductContent } from '../services/geminiService';
+import { buildListing, createListingId, getListing, saveListing } from '../services/historyStore';
+import { runWithConcurrency } from '../services/batchQueue';
+import { isImageFile, preparePhotos } from '../services/productPhotos';
+import { parseCsvRecords } from '../services/csv';
+import { formatPriceRange } from '../services/pricing';
+import { UploadCloudIcon, SparklesIcon, LoaderIcon, RefreshIcon, TrashIcon, CheckIcon } from './Icons';
+
+interface BatchModeProps {
+  branding: Branding;
+  market: MarketProfile;
+  language: LanguageCode;
+  settings: GenerationSettings;
+  onOpenListing: (listing: SavedListing) => void;
+}
+
+// CSV headers we understand; every other column is passed to the model as "Column: value"
+const DESCRIPTION_COLUMNS = ['description', 'notes', 'details'];
+const NAME_COLUMNS = ['name', 'product', 'product name', 'title'];
+const IMAGE_COLUMNS = ['image', 'image_file', 'filename', 'photo'];
+
+const pick = (record: Record<string, string>, columns: string[]) =>
+  columns.map(column => record[column]).find(value => value) || '';
+
+const createItem = (label: string, imageFile: File | null, textInput: string): BatchItem => ({
+  id: createListingId(),
+  label,
+  imageFile,
+  textInput,
+  status: BatchItemStatus.QUEUED,
+  attempts: 0,
+  error: null,
+  data: null,
+  listingId: null,
+});
+
+const itemsFromCsv = (csvText: string, images: File[]): BatchItem[] => {
+  const imagesByName = new Map(images.map(file => [file.name.toLowerCase(), file]));
+
+  return parseCsvRecords(csvText).map((record, i) => {
+    const known = [...DESCRIPTION_COLUMNS, ...IMAGE_COLUMNS];
+    const extras = Object.entries(record)
+      .filter(([key, value]) => value && !known.includes(key))
+      .map(([key, value]) => `${key}: ${value}`);
+    const textInput = [pick(record, DESCRIPTION_COLUMNS), ...extras].filter(Boolean).join('\n');
+    const imageName = pick(record, IMAGE_COLUMNS).toLowerCase();
+
+    return createItem(
+      pick(record, NAME_COLUMNS) || `Row ${i + 1}`,
+      imageName ? imagesByName.get(imageName) || null : null,
+      textInput
+    );
+  });
+};
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  [BatchItemStatus.QUEUED]: 'bg-slate-100 text-slate-600',
+  [BatchItemStatus.RUNNING]: 'bg-indigo-100 text-indigo-700',
+  [BatchItemStatus.DONE]: 'bg-green-100 text-green-700',
+  [BatchItemStatus.FAILED]: 'bg-red-100 text-red-700',
+};
+
+const BatchMode: React.FC<BatchModeProps> = ({ branding, market, language, settings, onOpenListing }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(3);
+  const [isRunning, setIsRunning] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const files = Array.from(fileList);
+    const csvFile = files.find(file => file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv');
+    const images = files.filter(isImageFile);
+
+    let added: BatchItem[];
+    if (csvFile) {
+      added = itemsFromCsv(await csvFile.text(), images);
+      const matched = added.filter(item => item.imageFile).length;
+      setNotice(`Loaded ${added.length} rows from ${csvFile.name}${images.length ? `, ${matched} matched to photos` : ''}.`);
+    } else {
+      added = images.map(file => createItem(file.name, file, ''));
+      setNotice(null);
+    }
+
+    setItems(prev => [...prev, ...added]);
+  };
+
+  const processItem = async (item: BatchItem) => {
+    updateItem(item.id, { status: BatchItemStatus.RUNNING, attempts: item.attempts + 1, error: null });
+
+    try {
+      const prepared = await preparePhotos(item.imageFile ? [item.imageFile] : []);
+      if (prepared.errors.length) throw new Error(prepared.errors[0]);
+      const listingId = createListingId();
+      const { data, photos } = await generateProductContent(prepared.photos, item.textInput, { market, language, brand: branding, listingId, settings });
+      const listing = buildListing({ id: listingId, textInput: item.textInput, photos, data, branding, marketId: market.id, language, settings });
+      const saved = await saveListing(listing).then(() => true, err => {
+        console.error("History save error:", err);
+        return false;
+      });
+      updateItem(item.id, { status: BatchItemStatus.DONE, data, listingId: saved ? listing.id : null });
+    } catch (err: any) {
+      updateItem(item.id, { status: BatchItemStatus.FAILED, error: err.message || 'Generation failed' });
+    }
+  };
+
+  const run = async (toRun: BatchItem[]) => {
+    if (toRun.length === 0 || isRunning) return;
+    setIsRunning(true);
+    try {
+      await runWithConcurrency(toRun, concurrency, processItem);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleOpen = async (item: BatchItem) => {
+    if (!item.listingId) return;
+    const listing = await getListing(item.listingId);
+    if (listing) onOpenListing(listing);
+  };
+
+  const queued = items.filter(item => item.status === BatchItemStatus.QUEUED);
+  const failed = items.filter(item => item.status === BatchItemStatus.FAILED);
+  const finished = items.filter(item => item.status === BatchItemStatus.DONE || item.status === BatchItemStatus.FAILED).length;
+  const progress = items.length ? Math.round((finished / items.length) * 100) : 0;
+
+  return (
+    <div className="space-y-5">
+      <div
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => { e.preventDefault(); handleFiles(e.dataTransfer.files); }}
+        className="w-full rounded-2xl border-2 border-dashed border-slate-300 bg-white hover:border-indigo-400 hover:bg-slate-50 p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-all"
+      >
+        <input
+          type="file"
+          ref={fileInputRef}
+          multiple
+          accept="image/*,.csv,text/csv"
+          className="hidden"
+          onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+        />
+        <div className="p-3 rounded-full mb-3 bg-slate-100 text-slate-500">
+          <UploadCloudIcon className="w-7 h-7" />
+        </div>
+        <p className="text-sm font-semibold text-slate-700 mb-1">Drop many product photos, or a CSV of product notes</p>
+        <p className="text-xs text-slate-500 max-w-md">
+          CSV needs a header row. Use a <code>description</code> column for notes and an optional <code>image</code> column naming a photo you drop alongside it.
+        </p>
+      </div>
+
+      {notice && <p className="text-sm text-slate-600 bg-indigo-50 border border-indigo-100 rounded-xl p-3">{notice}</p>}
+
+      {items.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => run(queued)}
+              disabled={isRunning || queued.length === 0}
+              className="px-4 py-2.5 rounded-lg font-semibold text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {isRunning ? <LoaderIcon className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
+              Generate {queued.length} Listing{queued.length === 1 ? '' : 's'}
+            </button>
+            <button
+              onClick={() => run(failed)}
+              disabled={isRunning || failed.length === 0}
+              className="px-4 py-2.5 rounded-lg font-medium text-sm bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <RefreshIcon className="w-4 h-4" /> Retry Failed ({failed.length})
+            </button>
+            <label className="text-sm text-slate-500 flex items-center gap-2">
+              Parallel
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isRunning}
+                className="px-2 py-1.5 text-sm border border-slate-200 rounded-lg bg-white"
+              >
+                {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <button
+              onClick={() => { setItems([]); setNotice(null); }}
+              disabled={isRunning}
+              className="ml-auto px-3 py-2 rounded-lg text-sm text-slate-500 hover:bg-slate-100 disabled:opacity-50 flex items-center gap-1.5"
+            >
+              <TrashIcon className="w-4 h-4" /> Clear
+            </button>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-slate-500 mb-1">
+              <span>{finished} of {items.length} processed</span>
+              <span>{progress}%</span>
+            </div>
+            <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${progress}%` }}></div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase tracking-wider text-slate-400 bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3">Item</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Product Name</th>
+                  <th className="px-4 py-3">Price</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {items.map(item => (
+                  <tr key={item.id} className="align-top">
+                    <td className="px-4 py-3 text-slate-700 max-w-[12rem] truncate" title={item.label}>{item.label}</td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                        {item.status === BatchItemStatus.RUNNING && <LoaderIcon className="w-3 h-3" />}
+                        {item.status === BatchItemStatus.DONE && <CheckIcon className="w-3 h-3" />}
+                        {item.status.toLowerCase()}
+                      </span>
+                      {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-slate-800 font-medium">{item.data?.productName || '—'}</td>
+                    <td className="px-4 py-3 text-slate-600 whitespace-nowrap">{item.data ? formatPriceRange(item.data.suggestedPrice) : '—'}</td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {item.status === BatchItemStatus.DONE && item.listingId && (
+                        <button onClick={() => handleOpen(item)} className="text-indigo-600 font-semibold hover:text-indigo-800">
+                          Open
+                        </button>
+                      )}
+                      {item.status === BatchItemStatus.FAILED && (
+                        <button
+                          onClick={() => run([item])}
+                          disabled={isRunning}
+                          className="text-slate-600 font-semibold hover:text-slate-900 disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchMode;
@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { BrandKit, Branding } from '../types';
+import { BRAND_FONTS, TONE_SUGGESTIONS, createBrandKit } from '../services/brandKitStore';
+import { CheckIcon, LoaderIcon, TrashIcon, UploadCloudIcon, XIcon } from './Icons';
+
+interface BrandKitManagerProps {
+  kits: BrandKit[];
+  activeKitId: string | null;
+  onClose: () => void;
+  onSave: (kit: BrandKit) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+type TextField = 'businessName' | 'tagline' | 'whatsappNumber' | 'defaultTone';
+
+const TEXT_FIELDS: { key: TextField; label: string; placeholder: string }[] = [
+  { key: 'businessName', label: 'Business Name', placeholder: 'e.g. Ada Styles' },
+  { key: 'tagline', label: 'Tagline', placeholder: 'e.g. Made in Lagos, loved everywhere' },
+  { key: 'whatsappNumber', label: 'WhatsApp Number', placeholder: 'e.g. +234 803 123 4567' },
+  { key: 'defaultTone', label: 'Default Tone', placeholder: 'e.g. Warm and friendly' },
+];
+
+const BrandKitManager: React.FC<BrandKitManagerProps> = ({ kits, activeKitId, onClose, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<BrandKit>(() => kits.find(kit => kit.id === activeKitId) ?? kits[0] ?? createBrandKit());
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isSaved = kits.some(kit => kit.id === draft.id);
+
+  const update = (changes: Partial<Branding>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Read as a data URL (not an object URL) so the logo survives a refresh
+    const reader = new FileReader();
+    reader.onloadend = () => update({ logoUrl: reader.result as string });
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  const handleSave = async () => {
+    if (!draft.businessName.trim()) {
+      setError('Give this brand a business name.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({ ...draft, businessName: draft.businessName.trim() });
+    } catch (err) {
+      console.error("Brand kit save error:", err);
+      setError('Could not save this brand kit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete the "${draft.businessName}" brand kit?`)) return;
+    await onDelete(draft.id);
+    setDraft(kits.find(kit => kit.id !== draft.id) ?? createBrandKit());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} aria-hidden="true"></div>
+      <div className="relative w-full sm:max-w-2xl bg-white rounded-t-2xl sm:rounded-2xl shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">Brand Kits</h2>
+            <p className="text-xs text-slate-500">Used for image overlays and the voice of your copy.</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100" aria-label="Close brand kits">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row flex-1 min-h-0">
+          <div className="sm:w-48 shrink-0 border-b sm:border-b-0 sm:border-r border-slate-100 p-3 flex sm:flex-col gap-1 overflow-x-auto">
+            {kits.map(kit => (
+              <button
+                key={kit.id}
+                onClick={() => { setDraft(kit); setError(null); }}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left whitespace-nowrap ${kit.id === draft.id ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                <span className="w-3 h-3 rounded-full shrink-0 border border-slate-200" style={{ backgroundColor: kit.primaryColor }}></span>
+                <span className="truncate">{kit.businessName}</span>
+                {kit.id === activeKitId && <CheckIcon className="w-3.5 h-3.5 ml-auto shrink-0" />}
+              </button>
+            ))}
+            <button
+              onClick={() => { setDraft(createBrandKit()); setError(null); }}
+              className="px-3 py-2 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50 text-left whitespace-nowrap"
+            >
+              + New brand
+            </button>
+          </div>
+
+          <div className="flex-1 px-5 py-4 space-y-4 overflow-y-auto">
+            <div className="flex items-center gap-3">
+              <div className="w-16 h-16 rounded-lg bg-slate-100 border border-slate-200 overflow-hidden flex items-center justify-center shrink-0">
+                {draft.logoUrl ? <img src={draft.logoUrl} alt="Logo" className="w-full h-full object-contain" /> : <UploadCloudIcon className="w-6 h-6 text-slate-300" />}
+              </div>
+              <input type="file" accept="image/*" ref={fileInputRef} onChange={handleLogoUpload} className="hidden" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-2 text-sm border border-slate-200 rounded-lg bg-slate-50 text-slate-600 hover:bg-slate-100"
+              >
+                {draft.logoUrl ? 'Change Logo' : 'Upload Logo'}
+              </button>
+              {draft.logoUrl && (
+                <button onClick={() => update({ logoUrl: null })} className="px-3 py-2 text-sm rounded-lg text-red-600 hover:bg-red-50">
+                  Remove
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+                <div key={key} className="space-y-1">
+                  <label className="text-xs font-semibold text-slate-500 uppercase tracking-wide">{label}</label>
+                  <input
+                    type={key === 'whatsappNumber' ? 'tel' : 'text'}
+                    value={draft[key]}
+                    placeholder={placeholder}
+                    list={key === 'defaultTone' ? 'brand-tone-suggestions' : undefined}
+                    onChange={(e) => update({ [key]: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+                  />
+                </div>
+              ))}
+              <datalist id="brand-tone-suggestions">
+                {TONE_SUGGESTIONS.map(tone => <option key={tone} value={tone} />)}
+              </datalist>
+
+              {(['primaryColor', 'accentColor'] as const).map(key => (
+                <div key={key} className="space-y-1">
+                  <label className="text-xs font-semibold text-slate-500 uppercase tracking-wide">{key === 'primaryColor' ? 'Primary Colour' : 'Accent Colour'}</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={draft[key]}
+                      onChange={(e) => update({ [key]: e.target.value })}
+                      className="w-10 h-9 p-0.5 border border-slate-200 rounded-lg bg-white cursor-pointer"
+                    />
+                    <span className="text-sm text-slate-500 font-mono">{draft[key]}</span>
+                  </div>
+                </div>
+              ))}
+
+              {(['headingFont', 'bodyFont'] as const).map(key => (
+                <div key={key} className="space-y-1">
+                  <label className="text-xs font-semibold text-slate-500 uppercase tracking-wide">{key === 'headingFont' ? 'Heading Font' : 'Body Font'}</label>
+                  <select
+                    value={draft[key]}
+                    onChange={(e) => update({ [key]: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white"
+                    style={{ fontFamily: draft[key] }}
+                  >
+                    {BRAND_FONTS.map(font => <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {/* Small swatch of how overlays will look */}
+            <div className="rounded-xl p-4 flex items-center justify-between" style={{ backgroundColor: draft.primaryColor, color: draft.accentColor }}>
+              <div>
+                <p className="font-bold text-lg leading-tight" style={{ fontFamily: draft.headingFont }}>{draft.businessName || 'Your Brand'}</p>
+                {draft.tagline && <p className="text-sm opacity-90" style={{ fontFamily: draft.bodyFont }}>{draft.tagline}</p>}
+              </div>
+              {draft.whatsappNumber && <span className="text-sm font-semibold" style={{ fontFamily: draft.bodyFont }}>{draft.whatsappNumber}</span>}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100 flex gap-2">
+          {isSaved && (
+            <button
+              onClick={handleDelete}
+              className="px-3 py-2.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 flex items-center gap-1.5"
+            >
+              <TrashIcon className="w-4 h-4" /> Delete
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="ml-auto flex items-center justify-center gap-2 bg-indigo-600 text-white px-5 py-2.5 rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isSaving ? <LoaderIcon className="w-4 h-4" /> : <CheckIcon className="w-4 h-4" />}
+            Save &amp; Use
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitManager;
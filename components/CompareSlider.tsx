@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+
+interface CompareSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+// Drag the handle to wipe between two images stacked on top of each other
+const CompareSlider: React.FC<CompareSliderProps> = ({ beforeUrl, afterUrl, beforeLabel = 'Before', afterLabel = 'After' }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="relative w-full aspect-square rounded-lg overflow-hidden bg-slate-100 select-none">
+      <img src={afterUrl} alt={afterLabel} className="absolute inset-0 w-full h-full object-contain" draggable={false} />
+      <img
+        src={beforeUrl}
+        alt={beforeLabel}
+        className="absolute inset-0 w-full h-full object-contain"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-slate-500 text-xs font-bold">
+          ⇔
+        </div>
+      </div>
+      <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/50 text-white text-xs">{beforeLabel}</span>
+      <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/50 text-white text-xs">{afterLabel}</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+        aria-label="Compare before and after"
+      />
+    </div>
+  );
+};
+
+export default CompareSlider;
@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SavedListing, ScheduledPost, SocialChannel } from '../types';
+import {
+  CHANNELS,
+  addDays,
+  createScheduledPost,
+  deleteScheduledPost,
+  downloadCalendarCsv,
+  downloadIcs,
+  getScheduledPosts,
+  saveScheduledPost,
+  startOfWeek,
+  subscribeToSchedule,
+  toDateInput,
+} from '../services/contentCalendar';
+import { ReminderPermission, getReminderPermission, requestReminderPermission } from '../services/postReminders';
+import { getAllListings } from '../services/historyStore';
+import ScheduledPostEditor from './ScheduledPostEditor';
+import { DownloadIcon, LoaderIcon, XIcon } from './Icons';
+
+interface ContentCalendarProps {
+  // Listing open in the editor, offered first when adding a post
+  activeListingId: string | null;
+  onClose: () => void;
+}
+
+const CHANNEL_STYLES: Record<SocialChannel, string> = {
+  instagram: 'bg-pink-50 text-pink-700 border-pink-100',
+  facebook: 'bg-blue-50 text-blue-700 border-blue-100',
+  tiktok: 'bg-slate-100 text-slate-800 border-slate-200',
+  whatsappStatus: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+};
+
+// New posts default to early evening, when most sellers' customers are scrolling
+const DEFAULT_POST_HOUR = 18;
+
+// A week of planned posts across channels, with ICS/CSV export and browser reminders
+const ContentCalendar: React.FC<ContentCalendarProps> = ({ activeListingId, onClose }) => {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(Date.now()));
+  const [posts, setPosts] = useState<ScheduledPost[] | null>(null);
+  const [listings, setListings] = useState<SavedListing[]>([]);
+  const [editing, setEditing] = useState<{ post: ScheduledPost; isNew: boolean } | null>(null);
+  const [permission, setPermission] = useState<ReminderPermission>(getReminderPermission);
+  const [error, setError] = useState<string | null>(null);
+  const weekEnd = addDays(weekStart, 7);
+
+  useEffect(() => {
+    getAllListings()
+      .then(setListings)
+      .catch(err => console.error("History load error:", err));
+  }, []);
+
+  useEffect(() => {
+    const load = () => getScheduledPosts(weekStart, weekEnd)
+      .then(setPosts)
+      .catch(err => {
+        console.error("Calendar load error:", err);
+        setError('Could not load the calendar from this browser.');
+      });
+    load();
+    return subscribeToSchedule(load);
+  }, [weekStart, weekEnd]);
+
+  const productNames = useMemo(() => new Map(listings.map(listing => [listing.id, listing.data.productName])), [listings]);
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const today = toDateInput(Date.now());
+
+  const getOtherCaptions = (listingId: string, postId: string) =>
+    (posts ?? []).filter(post => post.listingId === listingId && post.id !== postId).map(post => post.caption);
+
+  const handleAdd = (day: number) => {
+    const listing = listings.find(item => item.id === activeListingId) ?? listings[0];
+    const scheduledAt = new Date(day);
+    scheduledAt.setHours(DEFAULT_POST_HOUR, 0, 0, 0);
+    setEditing({
+      isNew: true,
+      post: createScheduledPost({
+        listingId: listing?.id ?? '',
+        channel: 'instagram',
+        scheduledAt: scheduledAt.getTime(),
+        caption: listing?.data.socialMediaPost ?? '',
+        imageUrl: listing?.marketingImageUrl ?? null,
+        reminderMinutes: permission === 'granted' ? 15 : null,
+      }),
+    });
+  };
+
+  const handleSave = async (post: ScheduledPost) => {
+    await saveScheduledPost(post);
+    setEditing(null);
+    // Jump to the week the post was moved to, so the seller sees it land
+    setWeekStart(startOfWeek(post.scheduledAt));
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteScheduledPost(id);
+    setEditing(null);
+  };
+
+  const handleEnableReminders = async () => {
+    setPermission(await requestReminderPermission());
+  };
+
+  const fileStem = `merchant-ai-posts-${toDateInput(weekStart)}`;
+  const weekLabel = `${new Date(weekStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${new Date(addDays(weekStart, 6)).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} aria-hidden="true"></div>
+      <div className={`relative w-full bg-white rounded-t-2xl sm:rounded-2xl shadow-2xl max-h-[90vh] flex flex-col ${editing ? 'sm:max-w-2xl' : 'sm:max-w-5xl'}`}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">{editing ? (editing.isNew ? 'Plan a Post' : 'Edit Post') : 'Content Calendar'}</h2>
+            <p className="text-xs text-slate-500">
+              {editing ? 'Each post gets its own caption and image.' : 'Plan your posts for the week across channels.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100" aria-label="Close calendar">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {editing ? (
+          <ScheduledPostEditor
+            key={editing.post.id}
+            post={editing.post}
+            isNew={editing.isNew}
+            listings={listings}
+            getOtherCaptions={getOtherCaptions}
+            reminderPermission={permission}
+            onEnableReminders={handleEnableReminders}
+            onSave={handleSave}
+            onDelete={handleDelete}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <>
+            <div className="px-5 py-3 border-b border-slate-100 flex flex-wrap items-center gap-2">
+              <div className="flex items-center gap-1">
+                <button onClick={() => setWeekStart(addDays(weekStart, -7))} className="px-2.5 py-1.5 rounded-lg text-sm text-slate-600 hover:bg-slate-100" aria-label="Previous week">‹</button>
+                <button onClick={() => setWeekStart(startOfWeek(Date.now()))} className="px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100">This week</button>
+                <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="px-2.5 py-1.5 rounded-lg text-sm text-slate-600 hover:bg-slate-100" aria-label="Next week">›</button>
+              </div>
+              <span className="text-sm font-semibold text-slate-800">{weekLabel}</span>
+              <div className="ml-auto flex flex-wrap items-center gap-2">
+                {permission === 'default' && (
+                  <button onClick={handleEnableReminders} className="px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50">
+                    Turn on reminders
+                  </button>
+                )}
+                {permission === 'granted' && <span className="text-xs text-slate-400">Reminders on while MerchantAI is open</span>}
+                <button
+                  onClick={() => downloadIcs(`${fileStem}.ics`, posts ?? [], productNames)}
+                  disabled={!posts?.length}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+                >
+                  <DownloadIcon className="w-4 h-4" /> Calendar (.ics)
+                </button>
+                <button
+                  onClick={() => downloadCalendarCsv(`${fileStem}.csv`, posts ?? [], productNames)}
+                  disabled={!posts?.length}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+                >
+                  <DownloadIcon className="w-4 h-4" /> CSV
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5 overflow-y-auto">
+              {error && <p className="bg-red-50 text-red-700 p-3 rounded-lg text-sm border border-red-100 mb-4">{error}</p>}
+              {!posts && !error && (
+                <div className="flex justify-center py-12 text-slate-400"><LoaderIcon className="w-6 h-6" /></div>
+              )}
+              {posts && listings.length === 0 && (
+                <p className="text-sm text-slate-500 mb-4">Generate and save a listing first, then plan when to post it here.</p>
+              )}
+
+              {posts && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-3">
+                  {days.map(day => {
+                    const dayPosts = posts.filter(post => post.scheduledAt >= day && post.scheduledAt < addDays(day, 1));
+                    const isToday = toDateInput(day) === today;
+                    return (
+                      <div key={day} className={`rounded-xl border p-2 flex flex-col gap-2 min-h-[8rem] ${isToday ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 bg-slate-50'}`}>
+                        <p className={`text-xs font-bold uppercase tracking-wider ${isToday ? 'text-indigo-600' : 'text-slate-400'}`}>
+                          {new Date(day).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                        </p>
+                        {dayPosts.map(post => (
+                          <button
+                            key={post.id}
+                            onClick={() => setEditing({ post, isNew: false })}
+                            className={`text-left rounded-lg border p-2 space-y-1 hover:shadow-sm transition-shadow ${CHANNEL_STYLES[post.channel]} ${post.posted ? 'opacity-60' : ''}`}
+                          >
+                            <div className="flex items-center justify-between gap-1 text-[11px] font-semibold">
+                              <span>{new Date(post.scheduledAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}</span>
+                              <span className="truncate">{post.posted ? '✓ Posted' : CHANNELS[post.channel].label}</span>
+                            </div>
+                            <div className="flex items-center gap-1.5">
+                              {post.imageUrl && <img src={post.imageUrl} alt="" className="w-8 h-8 rounded object-cover shrink-0" />}
+                              <span className="text-xs font-medium text-slate-700 line-clamp-2">{productNames.get(post.listingId) ?? 'Deleted listing'}</span>
+                            </div>
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => handleAdd(day)}
+                          disabled={listings.length === 0}
+                          className="mt-auto text-xs font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg py-1 disabled:opacity-40"
+                        >
+                          + Add
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContentCalendar;
@@ -0,0 +1,24 @@
+import React, { useState } from 'react';
+import { CopyIcon, CheckIcon } from './Icons';
+
+const CopyButton: React.FC<{ text: string; label?: string; className?: string }> = ({ text, label, className }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <button 
+      onClick={handleCopy}
+      className={`flex items-center gap-1.5 text-xs font-medium px-3 py-2 sm:py-1.5 rounded-lg transition-all active:scale-95 touch-manipulation ${copied ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'} ${className}`}
+    >
+      {copied ? <CheckIcon className="w-3.5 h-3.5" /> : <CopyIcon className="w-3.5 h-3.5" />}
+      {copied ? 'Copied' : (label || 'Copy')}
+    </button>
+  );
+};
+
+export default CopyButton;
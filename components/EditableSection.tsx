@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { CheckIcon, LoaderIcon, PencilIcon, RefreshIcon, XIcon } from './Icons';
+
+interface EditableSectionProps {
+  title: string;
+  // Plain-text form of the field shown in the editor
+  value: string;
+  onSave: (text: string) => void;
+  onRegenerate: (instruction: string) => Promise<void>;
+  action?: React.ReactNode;
+  multiline?: boolean;
+  hint?: string;
+  children: React.ReactNode;
+}
+
+const QUICK_INSTRUCTIONS = ['Shorter', 'Longer', 'More playful', 'More formal', 'More urgent'];
+
+const EditableSection: React.FC<EditableSectionProps> = ({ title, value, onSave, onRegenerate, action, multiline = true, hint, children }) => {
+  const [mode, setMode] = useState<'view' | 'edit' | 'regenerate'>('view');
+  const [draft, setDraft] = useState(value);
+  const [instruction, setInstruction] = useState("");
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft(value);
+    setError(null);
+    setMode('edit');
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    setMode('view');
+  };
+
+  const handleRegenerate = async (text: string = instruction) => {
+    setIsRegenerating(true);
+    setError(null);
+    try {
+      await onRegenerate(text.trim());
+      setInstruction("");
+      setMode('view');
+    } catch (err: any) {
+      setError(err.message || "Could not regenerate this field.");
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const iconButton = 'p-2 sm:p-1.5 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all active:scale-95 touch-manipulation disabled:opacity-50';
+
+  return (
+    <div className="mb-4 sm:mb-6 p-4 sm:p-5 bg-white rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-shadow">
+      <div className="flex justify-between items-center mb-3 gap-2">
+        <h3 className="text-xs sm:text-sm font-bold text-slate-400 uppercase tracking-wider">{title}</h3>
+        <div className="flex items-center gap-1.5">
+          {mode === 'view' && (
+            <>
+              <button onClick={startEditing} className={iconButton} aria-label={`Edit ${title}`} title="Edit">
+                <PencilIcon className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => { setError(null); setMode('regenerate'); }} className={iconButton} aria-label={`Regenerate ${title}`} title="Regenerate with AI">
+                <RefreshIcon className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+          {action}
+        </div>
+      </div>
+
+      {mode === 'edit' ? (
+        <div className="space-y-2">
+          {multiline ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="w-full min-h-[120px] px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500 resize-y"
+              autoFocus
+            />
+          ) : (
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+              autoFocus
+            />
+          )}
+          {hint && <p className="text-xs text-slate-400">{hint}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setMode('view')} className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-100 flex items-center gap-1">
+              <XIcon className="w-3.5 h-3.5" /> Cancel
+            </button>
+            <button onClick={handleSave} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-700 flex items-center gap-1">
+              <CheckIcon className="w-3.5 h-3.5" /> Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="text-slate-800 leading-relaxed text-sm sm:text-base">
+          {children}
+        </div>
+      )}
+
+      {mode === 'regenerate' && (
+        <div className="mt-3 p-3 bg-indigo-50 rounded-lg border border-indigo-100 space-y-2">
+          <div className="flex flex-wrap gap-1.5">
+            {QUICK_INSTRUCTIONS.map(quick => (
+              <button
+                key={quick}
+                onClick={() => handleRegenerate(quick)}
+                disabled={isRegenerating}
+                className="px-2.5 py-1 rounded-full text-xs font-medium bg-white border border-indigo-100 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50"
+              >
+                {quick}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Optional instruction, e.g. 'mention free delivery'"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && !isRegenerating) handleRegenerate(); }}
+              className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+            />
+            <button
+              onClick={() => handleRegenerate()}
+              disabled={isRegenerating}
+              className="bg-slate-800 text-white px-3 py-2 rounded-lg text-sm font-medium hover:bg-slate-900 disabled:opacity-50 flex items-center gap-1.5"
+            >
+              {isRegenerating ? <LoaderIcon className="w-4 h-4" /> : <RefreshIcon className="w-4 h-4" />}
+              Regenerate
+            </button>
+            <button onClick={() => setMode('view')} disabled={isRegenerating} className="px-2 rounded-lg text-slate-500 hover:bg-white" aria-label="Cancel regenerate">
+              <XIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default EditableSection;
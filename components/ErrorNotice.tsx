@@ -0,0 +1,62 @@
+import React from 'react';
+import { ErrorCode, ErrorInfo } from '../types';
+import { RefreshIcon, XIcon } from './Icons';
+
+interface ErrorNoticeProps {
+  error: ErrorInfo;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+// What the seller can do about each kind of failure
+const ERROR_ADVICE: Record<ErrorCode, { title: string; action: string }> = {
+  missingKey: { title: 'AI service not set up', action: 'Add a valid API key to .env.local and restart the API server.' },
+  quota: { title: 'Too many requests', action: 'The free quota resets shortly. Wait a moment, then try again.' },
+  safety: { title: 'Blocked by safety filters', action: 'Rephrase your description or edit, or try a different photo.' },
+  network: { title: 'Connection problem', action: 'Check your data or Wi-Fi connection, then try again.' },
+  unavailable: { title: 'AI service unavailable', action: 'The service is overloaded. Try again in a minute.' },
+  invalidJson: { title: 'Unreadable response', action: 'The AI sent back something we could not read. Trying again usually works.' },
+  schemaMismatch: { title: 'Incomplete response', action: 'The AI left out part of the listing. Trying again usually works.' },
+  invalidInput: { title: 'Missing details', action: 'Add a photo or a short description of your product.' },
+  tooLarge: { title: 'Photos too large', action: 'Use fewer photos or smaller ones, then try again.' },
+  limitReached: { title: 'Usage limit reached', action: 'Open Usage in the header to see what you have used so far.' },
+  cancelled: { title: 'Cancelled', action: 'Nothing was generated.' },
+  unknown: { title: 'Something went wrong', action: 'Try again. If it keeps happening, reload the page.' },
+};
+
+// Codes where pressing the same button again can succeed
+const RETRYABLE_CODES: ErrorCode[] = ['quota', 'network', 'unavailable', 'invalidJson', 'schemaMismatch', 'unknown'];
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onDismiss, className = '' }) => {
+  const advice = ERROR_ADVICE[error.code];
+  const waitSeconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : 0;
+
+  return (
+    <div role="alert" className={`bg-red-50 text-red-700 p-4 rounded-xl text-sm border border-red-100 flex items-start gap-2 ${className}`}>
+      <span className="shrink-0">⚠️</span>
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="font-semibold">{advice.title}</p>
+        <p className="text-red-600">{error.message}</p>
+        <p className="text-xs text-red-500">
+          {advice.action}{waitSeconds ? ` Suggested wait: ${waitSeconds}s.` : ''}
+        </p>
+        {onRetry && RETRYABLE_CODES.includes(error.code) && (
+          <button
+            onClick={onRetry}
+            className="mt-1 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white border border-red-200 text-red-700 text-xs font-semibold hover:bg-red-100"
+          >
+            <RefreshIcon className="w-3.5 h-3.5" /> Try again
+          </button>
+        )}
+      </div>
+      {onDismiss && (
+        <button onClick={onDismiss} className="p-1 rounded text-red-400 hover:text-red-600" aria-label="Dismiss error">
+          <XIcon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  ExportOptionKey,
+  ExportOptions,
+  ExportSource,
+  ExportTarget,
+  downloadExport,
+  validateExport,
+} from '../services/marketplaceExport';
+import { DownloadIcon, XIcon } from './Icons';
+
+interface ExportDialogProps {
+  sources: ExportSource[];
+  onClose: () => void;
+}
+
+const OPTION_LABELS: Record<ExportOptionKey, { label: string; placeholder: string }> = {
+  category: { label: 'Category', placeholder: 'e.g. Fashion > Bags' },
+  region: { label: 'Region', placeholder: 'e.g. Lagos' },
+  brand: { label: 'Brand', placeholder: 'Defaults to your business name' },
+  condition: { label: 'Condition', placeholder: '' },
+  imageBaseUrl: { label: 'Photo Web Address', placeholder: 'e.g. https://yourshop.com/photos' },
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ sources, onClose }) => {
+  const [target, setTarget] = useState<ExportTarget>('jumia');
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  const format = EXPORT_FORMATS[target];
+  const issues = validateExport(target, sources, options);
+
+  const setOption = (key: ExportOptionKey, value: string) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleDownload = () => {
+    downloadExport(target, sources, options);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} aria-hidden="true"></div>
+      <div className="relative w-full sm:max-w-lg bg-white rounded-t-2xl sm:rounded-2xl shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">Export for Marketplaces</h2>
+            <p className="text-xs text-slate-500">{sources.length} listing{sources.length === 1 ? '' : 's'}</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100" aria-label="Close export">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(EXPORT_FORMATS) as ExportTarget[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setTarget(option)}
+                className={`px-3 py-2.5 rounded-lg text-sm font-semibold border transition-all ${target === option ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+              >
+                {EXPORT_FORMATS[option].label}
+              </button>
+            ))}
+          </div>
+
+          {format.options.map(key => (
+            <div key={key} className="space-y-1">
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wide">{OPTION_LABELS[key].label}</label>
+              {key === 'condition' ? (
+                <select
+                  value={options.condition}
+                  onChange={(e) => setOption(key, e.target.value)}
+                  className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white"
+                >
+                  <option value="New">New</option>
+                  <option value="Used">Used</option>
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={options[key]}
+                  placeholder={OPTION_LABELS[key].placeholder}
+                  onChange={(e) => setOption(key, e.target.value)}
+                  className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+                />
+              )}
+            </div>
+          ))}
+
+          {issues.length > 0 && (
+            <div className="bg-amber-50 text-amber-800 p-3 rounded-xl text-sm border border-amber-100">
+              <p className="font-semibold mb-1">Fix these before exporting:</p>
+              <ul className="list-disc pl-5 space-y-0.5 max-h-32 overflow-y-auto">
+                {issues.map((issue, i) => (
+                  <li key={i}>{sources.length > 1 ? `${issue.productName}: ` : ''}{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-100">
+          <button
+            onClick={handleDownload}
+            disabled={issues.length > 0 || sources.length === 0}
+            className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white py-2.5 rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-4 h-4" /> Download {format.fileName}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -1,15 +1,40 @@
 import React, { useRef, useState } from 'react';
-import { UploadCloudIcon, ImageIcon, CheckIcon } from './Icons';
+import { ProductPhoto } from '../types';
+import { MAX_PHOTOS, addPhotos, isImageFile, movePhoto, preparePhotos, removePhoto, setCoverPhoto } from '../services/productPhotos';
+import { QUALITY_ISSUE_MESSAGES } from '../services/imagePreprocess';
+import PhotoThumbnail from './PhotoThumbnail';
+import { LoaderIcon, UploadCloudIcon, XIcon } from './Icons';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
-  selectedFile: File | null;
-  previewUrl: string | null;
+  photos: ProductPhoto[];
+  onPhotosChange: (photos: ProductPhoto[]) => void;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, previewUrl }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ photos, onPhotosChange }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const isFull = photos.length >= MAX_PHOTOS;
+  const warnings = photos.flatMap((photo, i) =>
+    (photo.qualityIssues ?? []).map(issue => `Photo ${i + 1} ${QUALITY_ISSUE_MESSAGES[issue]}`)
+  );
+
+  // Photos are uprighted, converted and compressed before they are kept
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0 || isProcessing) return;
+    const files = Array.from(fileList).filter(isImageFile).slice(0, MAX_PHOTOS - photos.length);
+    if (files.length === 0) return;
+
+    setIsProcessing(true);
+    try {
+      const prepared = await preparePhotos(files);
+      setErrors(prepared.errors);
+      if (prepared.photos.length) onPhotosChange(addPhotos(photos, prepared.photos));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -24,55 +49,103 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, pre
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('image/')) {
-        onFileSelect(file);
-      }
-    }
+    handleFiles(e.dataTransfer.files);
   };
 
   const handleClick = () => {
+    if (isProcessing) return;
     fileInputRef.current?.click();
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      onFileSelect(e.target.files[0]);
-    }
+    handleFiles(e.target.files);
+    e.target.value = '';
   };
 
   return (
-    <div 
-      className={`relative w-full transition-all duration-300 ease-in-out cursor-pointer group`}
-    >
+    <div className="relative w-full group">
       <input 
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileChange} 
-        accept="image/*" 
+        accept="image/*,.heic,.heif" 
+        multiple
         className="hidden" 
       />
 
-      {previewUrl ? (
-        <div 
-          onClick={handleClick}
-          className="relative w-full aspect-video md:aspect-square bg-slate-100 rounded-2xl overflow-hidden border-2 border-slate-200 group-hover:border-indigo-500 transition-colors shadow-sm"
+      {photos.length > 0 ? (
+        <div
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+          className={`space-y-3 rounded-2xl transition-colors ${isDragging ? 'ring-2 ring-indigo-400 bg-indigo-50' : ''}`}
         >
-          <img 
-            src={previewUrl} 
-            alt="Preview" 
-            className="w-full h-full object-cover" 
-          />
-          <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-            <span className="text-white font-medium flex items-center gap-2">
-              <UploadCloudIcon /> Change Photo
+          <div className="relative w-full aspect-video md:aspect-square bg-slate-100 rounded-2xl overflow-hidden border-2 border-slate-200 shadow-sm">
+            <PhotoThumbnail file={photos[0].file} alt="Cover photo" className="w-full h-full" />
+            <span className="absolute top-2 left-2 bg-indigo-600 text-white text-xs font-semibold px-2 py-0.5 rounded-full shadow">
+              Cover
             </span>
           </div>
-          <div className="absolute top-2 right-2 bg-green-500 text-white p-1 rounded-full shadow-lg">
-            <CheckIcon className="w-4 h-4" />
+
+          <div className="grid grid-cols-4 gap-2">
+            {photos.map((photo, i) => (
+              <div key={photo.id} className="relative aspect-square rounded-lg overflow-hidden border border-slate-200 bg-slate-100 group/photo">
+                <PhotoThumbnail file={photo.file} alt={photo.altText || photo.file.name} className="w-full h-full" />
+                {photo.qualityIssues?.length ? (
+                  <span className="absolute top-1 left-1 px-1 rounded bg-amber-400 text-amber-950 text-[10px] font-bold" title="Quality warning">!</span>
+                ) : null}
+                <button
+                  onClick={() => onPhotosChange(removePhoto(photos, photo.id))}
+                  className="absolute top-1 right-1 p-0.5 rounded-full bg-black/60 text-white hover:bg-red-600"
+                  aria-label={`Remove ${photo.file.name}`}
+                >
+                  <XIcon className="w-3 h-3" />
+                </button>
+                <div className="absolute inset-x-0 bottom-0 flex items-center justify-between bg-black/50 text-white text-xs">
+                  <button
+                    onClick={() => onPhotosChange(movePhoto(photos, photo.id, -1))}
+                    disabled={i === 0}
+                    className="px-1.5 py-0.5 hover:bg-black/40 disabled:opacity-30"
+                    aria-label="Move left"
+                  >
+                    ←
+                  </button>
+                  {i > 0 && (
+                    <button onClick={() => onPhotosChange(setCoverPhoto(photos, photo.id))} className="px-1 py-0.5 hover:bg-black/40" title="Set as cover">
+                      Cover
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onPhotosChange(movePhoto(photos, photo.id, 1))}
+                    disabled={i === photos.length - 1}
+                    className="px-1.5 py-0.5 hover:bg-black/40 disabled:opacity-30"
+                    aria-label="Move right"
+                  >
+                    →
+                  </button>
+                </div>
+              </div>
+            ))}
+            {!isFull && (
+              <button
+                onClick={handleClick}
+                disabled={isProcessing}
+                className="aspect-square rounded-lg border-2 border-dashed border-slate-300 text-slate-400 hover:border-indigo-400 hover:text-indigo-600 flex flex-col items-center justify-center text-xs font-medium disabled:cursor-wait"
+              >
+                {isProcessing ? <LoaderIcon className="w-5 h-5 mb-1" /> : <UploadCloudIcon className="w-5 h-5 mb-1" />}
+                {isProcessing ? 'Optimising' : 'Add'}
+              </button>
+            )}
           </div>
+          {warnings.length > 0 && (
+            <ul className="text-xs text-amber-800 bg-amber-50 border border-amber-100 rounded-lg p-3 space-y-1">
+              {warnings.map(warning => <li key={warning}>⚠️ {warning}</li>)}
+              <li className="text-amber-600">You can still generate, but a retake usually gives a better listing.</li>
+            </ul>
+          )}
+          <p className="text-xs text-slate-500">
+            {photos.length} of {MAX_PHOTOS} photos. Add the back, close-ups and labels so the listing covers every detail.
+          </p>
         </div>
       ) : (
         <div
@@ -81,7 +154,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, pre
           onDrop={handleDrop}
           onClick={handleClick}
           className={`
-            w-full aspect-video md:aspect-square rounded-2xl border-2 border-dashed flex flex-col items-center justify-center text-center p-6 transition-all duration-300
+            w-full aspect-video md:aspect-square rounded-2xl border-2 border-dashed flex flex-col items-center justify-center text-center p-6 transition-all duration-300 cursor-pointer
             ${isDragging 
               ? 'border-indigo-500 bg-indigo-50 scale-[1.02]' 
               : 'border-slate-300 bg-white hover:border-indigo-400 hover:bg-slate-50'
@@ -89,16 +162,22 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, pre
           `}
         >
           <div className={`p-4 rounded-full mb-3 ${isDragging ? 'bg-indigo-200 text-indigo-700' : 'bg-slate-100 text-slate-500 group-hover:bg-indigo-50 group-hover:text-indigo-600'}`}>
-            <UploadCloudIcon className="w-8 h-8" />
+            {isProcessing ? <LoaderIcon className="w-8 h-8" /> : <UploadCloudIcon className="w-8 h-8" />}
           </div>
           <p className="text-sm font-semibold text-slate-700 mb-1">
-            Click to upload or drag & drop
+            {isProcessing ? 'Optimising your photos...' : 'Click to upload or drag & drop'}
           </p>
           <p className="text-xs text-slate-500">
-            SVG, PNG, JPG (max 800x800 recommended)
+            Up to {MAX_PHOTOS} photos: front, back, details and labels. JPG, PNG, WebP, HEIC or SVG; large photos are shrunk for faster uploads.
           </p>
         </div>
       )}
+
+      {errors.length > 0 && (
+        <ul className="mt-3 text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg p-3 space-y-1">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
     </div>
   );
 };
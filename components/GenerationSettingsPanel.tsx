@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { CaptionLength, CopyTone, EmojiLevel, GenerationPreset, GenerationSettings, TargetPlatform } from '../types';
+import { CAPTION_LENGTHS, EMOJI_LEVELS, PLATFORMS, TONES, describeSettings, isSameSettings } from '../services/generationSettings';
+import { TrashIcon } from './Icons';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  presets: GenerationPreset[];
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  // Settings of the listing that is open, so its results can be reproduced
+  listingSettings: GenerationSettings | null;
+}
+
+const labelClass = 'text-xs font-semibold text-slate-500 uppercase tracking-wide';
+
+const Segmented = <T extends string>({ options, value, onChange }: { options: Record<T, { label: string }>; value: T; onChange: (value: T) => void }) => (
+  <div className="inline-flex flex-wrap p-1 bg-slate-200/60 rounded-xl text-sm font-semibold">
+    {(Object.keys(options) as T[]).map(option => (
+      <button
+        key={option}
+        onClick={() => onChange(option)}
+        className={`px-3 py-1.5 rounded-lg transition-all ${value === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+      >
+        {options[option].label}
+      </button>
+    ))}
+  </div>
+);
+
+// Tone, caption length, emojis, platform and audience for new listings, with saved presets
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onChange, presets, onSavePreset, onDeletePreset, listingSettings }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const activePreset = presets.find(preset => isSameSettings(preset.settings, settings));
+  const canReuseListing = listingSettings && !isSameSettings(listingSettings, settings);
+
+  const update = (changes: Partial<GenerationSettings>) => onChange({ ...settings, ...changes });
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-800">4. Style</h2>
+        <button onClick={() => setIsOpen(prev => !prev)} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800">
+          {isOpen ? 'Done' : 'Customise'}
+        </button>
+      </div>
+      <p className="text-sm text-slate-500">
+        {activePreset && <span className="font-semibold text-slate-700">{activePreset.name}: </span>}
+        {describeSettings(settings)}
+      </p>
+      {canReuseListing && (
+        <button onClick={() => onChange(listingSettings)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">
+          Use the open listing's style ({describeSettings(listingSettings)})
+        </button>
+      )}
+
+      {isOpen && (
+        <div className="p-4 bg-white rounded-xl border border-slate-200 space-y-4">
+          {presets.length > 0 && (
+            <div className="space-y-1">
+              <label className={labelClass}>Preset</label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={activePreset?.id ?? ''}
+                  onChange={(e) => {
+                    const preset = presets.find(item => item.id === e.target.value);
+                    if (preset) onChange(preset.settings);
+                  }}
+                  className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white"
+                >
+                  {!activePreset && <option value="">Custom</option>}
+                  {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                </select>
+                {activePreset && (
+                  <button
+                    onClick={() => onDeletePreset(activePreset.id)}
+                    className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50"
+                    aria-label={`Delete preset ${activePreset.name}`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <label className={labelClass}>Tone</label>
+            <div>
+              <Segmented<CopyTone> options={TONES} value={settings.tone} onChange={tone => update({ tone })} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label className={labelClass}>Caption Length</label>
+              <div>
+                <Segmented<CaptionLength> options={CAPTION_LENGTHS} value={settings.captionLength} onChange={captionLength => update({ captionLength })} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Emojis</label>
+              <div>
+                <Segmented<EmojiLevel> options={EMOJI_LEVELS} value={settings.emojiLevel} onChange={emojiLevel => update({ emojiLevel })} />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label className={labelClass}>Caption For</label>
+              <select
+                value={settings.platform}
+                onChange={(e) => update({ platform: e.target.value as TargetPlatform })}
+                className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white"
+              >
+                {(Object.keys(PLATFORMS) as TargetPlatform[]).map(platform => (
+                  <option key={platform} value={platform}>{PLATFORMS[platform].label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Audience</label>
+              <input
+                type="text"
+                value={settings.audience}
+                placeholder="Let the AI decide"
+                onChange={(e) => update({ audience: e.target.value })}
+                className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+              />
+            </div>
+          </div>
+
+          {!activePreset && (
+            <div className="flex items-center gap-2 pt-1">
+              <input
+                type="text"
+                value={presetName}
+                placeholder="Preset name, e.g. Luxury Instagram"
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+                className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+              />
+              <button
+                onClick={handleSavePreset}
+                disabled={!presetName.trim()}
+                className="px-3 py-2 rounded-lg text-sm font-semibold bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50"
+              >
+                Save Preset
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
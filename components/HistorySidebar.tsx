@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { ErrorInfo, SavedListing } from '../types';
+import { getAllListings, deleteListing, duplicateListing, matchesSearch } from '../services/historyStore';
+import { toErrorInfo } from '../services/errors';
+import ErrorNotice from './ErrorNotice';
+import ExportDialog from './ExportDialog';
+import { DownloadIcon, DuplicateIcon, ImageIcon, LoaderIcon, SearchIcon, TrashIcon, XIcon } from './Icons';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  activeListingId: string | null;
+  onClose: () => void;
+  onOpenListing: (listing: SavedListing) => void;
+  // Lets the parent clear its view when the open listing gets deleted
+  onDeleteListing?: (id: string) => void;
+}
+
+const ListingThumbnail: React.FC<{ listing: SavedListing }> = ({ listing }) => {
+  const [src, setSrc] = useState<string | null>(listing.marketingImageUrl);
+
+  useEffect(() => {
+    const cover = listing.photos[0]?.file;
+    if (listing.marketingImageUrl || !cover) {
+      setSrc(listing.marketingImageUrl);
+      return;
+    }
+    const url = URL.createObjectURL(cover);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [listing.marketingImageUrl, listing.photos]);
+
+  return (
+    <div className="w-14 h-14 shrink-0 rounded-lg bg-slate-100 overflow-hidden flex items-center justify-center text-slate-300">
+      {src ? <img src={src} alt="" className="w-full h-full object-cover" /> : <ImageIcon className="w-6 h-6" />}
+    </div>
+  );
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, activeListingId, onClose, onOpenListing, onDeleteListing }) => {
+  const [listings, setListings] = useState<SavedListing[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [query, setQuery] = useState("");
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // A duplicate or delete that failed, e.g. when storage is full
+  const [actionError, setActionError] = useState<ErrorInfo | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      setListings(await getAllListings());
+      setLoadError(null);
+    } catch (err) {
+      console.error("History load error:", err);
+      setLoadError("Could not load your saved listings.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reload whenever the drawer opens so it reflects the latest saves
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  const handleDuplicate = async (id: string) => {
+    setActionError(null);
+    try {
+      const copy = await duplicateListing(id);
+      if (copy) await refresh();
+    } catch (err) {
+      console.error("History duplicate error:", err);
+      setActionError(toErrorInfo(err, "Could not duplicate the listing."));
+    }
+  };
+
+  const handleDelete = async (listing: SavedListing) => {
+    if (!window.confirm(`Delete "${listing.data.productName}"? This cannot be undone.`)) return;
+    setActionError(null);
+    try {
+      await deleteListing(listing.id);
+    } catch (err) {
+      console.error("History delete error:", err);
+      setActionError(toErrorInfo(err, "Could not delete the listing."));
+      return;
+    }
+    onDeleteListing?.(listing.id);
+    await refresh();
+  };
+
+  const visible = listings.filter(listing => matchesSearch(listing, query));
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30 backdrop-blur-sm" onClick={onClose} aria-hidden="true"></div>
+      <aside className="relative w-full max-w-sm h-full bg-white shadow-2xl flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between px-4 py-4 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900">Saved Listings</h2>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100" aria-label="Close history">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-slate-100">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-slate-400">
+              <SearchIcon className="w-4 h-4" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search by name, keyword or hashtag"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+            />
+          </div>
+          {visible.length > 0 && (
+            <button
+              onClick={() => setIsExportOpen(true)}
+              className="mt-2 w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold text-indigo-600 bg-indigo-50 hover:bg-indigo-100"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              Export {query ? 'Matching' : 'All'} ({visible.length})
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-2 py-2">
+          {isLoading && listings.length === 0 && (
+            <div className="flex justify-center py-10 text-slate-400">
+              <LoaderIcon className="w-6 h-6" />
+            </div>
+          )}
+
+          {loadError && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg p-3 m-2">{loadError}</p>
+          )}
+
+          {actionError && <ErrorNotice error={actionError} onDismiss={() => setActionError(null)} className="m-2" />}
+
+          {!isLoading && !loadError && visible.length === 0 && (
+            <p className="text-sm text-slate-400 text-center py-10 px-4">
+              {query ? 'No listings match your search.' : 'Listings you generate will appear here.'}
+            </p>
+          )}
+
+          {visible.map(listing => (
+            <div
+              key={listing.id}
+              className={`group flex items-center gap-3 p-2 rounded-xl cursor-pointer transition-colors ${listing.id === activeListingId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              onClick={() => onOpenListing(listing)}
+            >
+              <ListingThumbnail listing={listing} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-slate-800 truncate">{listing.data.productName}</p>
+                <p className="text-xs text-slate-400">{formatDate(listing.updatedAt)}</p>
+              </div>
+              <div className="flex gap-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDuplicate(listing.id); }}
+                  className="p-2 rounded-lg text-slate-500 hover:bg-white hover:text-indigo-600"
+                  aria-label="Duplicate listing"
+                  title="Duplicate"
+                >
+                  <DuplicateIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(listing); }}
+                  className="p-2 rounded-lg text-slate-500 hover:bg-white hover:text-red-600"
+                  aria-label="Delete listing"
+                  title="Delete"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+
+      {isExportOpen && <ExportDialog sources={visible} onClose={() => setIsExportOpen(false)} />}
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { LanguageCode } from '../types';
+import { LANGUAGES } from '../services/languages';
+import { LoaderIcon, XIcon } from './Icons';
+
+interface LanguageTabsProps {
+  // The language the listing was generated in; it cannot be removed
+  primary: LanguageCode;
+  translated: LanguageCode[];
+  translating: LanguageCode[];
+  active: LanguageCode;
+  onSelect: (language: LanguageCode) => void;
+  onAdd: (language: LanguageCode) => void;
+  onRemove: (language: LanguageCode) => void;
+  action?: React.ReactNode;
+}
+
+const LanguageTabs: React.FC<LanguageTabsProps> = ({ primary, translated, translating, active, onSelect, onAdd, onRemove, action }) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const tabs = [primary, ...translated.filter(code => code !== primary)];
+  const available = (Object.keys(LANGUAGES) as LanguageCode[]).filter(code => !tabs.includes(code) && !translating.includes(code));
+
+  const tabClass = (selected: boolean) =>
+    `flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold whitespace-nowrap transition-all ${selected ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <div className="flex items-center gap-1 p-1 bg-slate-200/60 rounded-xl overflow-x-auto max-w-full">
+        {tabs.map(code => (
+          <div key={code} className={tabClass(code === active)}>
+            <button onClick={() => onSelect(code)} title={LANGUAGES[code].label}>
+              {LANGUAGES[code].nativeName}
+            </button>
+            {code !== primary && (
+              <button onClick={() => onRemove(code)} className="text-slate-400 hover:text-red-600" aria-label={`Remove ${LANGUAGES[code].label}`}>
+                <XIcon className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        {translating.map(code => (
+          <span key={code} className={`${tabClass(false)} cursor-wait`}>
+            <LoaderIcon className="w-3.5 h-3.5" /> {LANGUAGES[code].nativeName}
+          </span>
+        ))}
+      </div>
+
+      {available.length > 0 && (
+        isPickerOpen ? (
+          <select
+            autoFocus
+            value=""
+            onChange={(e) => { onAdd(e.target.value as LanguageCode); setIsPickerOpen(false); }}
+            onBlur={() => setIsPickerOpen(false)}
+            className="px-3 py-1.5 text-sm border border-slate-200 rounded-lg bg-white"
+          >
+            <option value="" disabled>Translate into…</option>
+            {available.map(code => (
+              <option key={code} value={code}>{LANGUAGES[code].label}</option>
+            ))}
+          </select>
+        ) : (
+          <button
+            onClick={() => setIsPickerOpen(true)}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+          >
+            + Add language
+          </button>
+        )
+      )}
+
+      {action && <div className="ml-auto">{action}</div>}
+    </div>
+  );
+};
+
+export default LanguageTabs;
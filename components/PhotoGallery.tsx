@@ -0,0 +1,51 @@
+import React from 'react';
+import { ProductPhoto } from '../types';
+import { updatePhoto } from '../services/productPhotos';
+import PhotoThumbnail from './PhotoThumbnail';
+import { ImageIcon } from './Icons';
+
+interface PhotoGalleryProps {
+  photos: ProductPhoto[];
+  onPhotosChange: (photos: ProductPhoto[]) => void;
+}
+
+// Per-photo captions and alt text written during analysis; marketplace exports reuse them
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ photos, onPhotosChange }) => (
+  <div className="mb-6 p-4 sm:p-5 bg-white rounded-xl border border-slate-100 shadow-sm">
+    <h3 className="text-xs sm:text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1 mb-3">
+      <ImageIcon className="w-4 h-4" /> Photo Gallery
+      <span className="font-normal normal-case tracking-normal">({photos.length})</span>
+    </h3>
+    <div className="space-y-3">
+      {photos.map((photo, i) => (
+        <div key={photo.id} className="flex gap-3">
+          <div className="relative w-20 h-20 shrink-0 rounded-lg overflow-hidden border border-slate-200">
+            <PhotoThumbnail file={photo.file} alt={photo.altText} className="w-full h-full" />
+            {i === 0 && (
+              <span className="absolute bottom-0 inset-x-0 bg-indigo-600 text-white text-[10px] font-semibold text-center">Cover</span>
+            )}
+          </div>
+          <div className="flex-1 min-w-0 space-y-1.5">
+            <input
+              type="text"
+              value={photo.caption}
+              placeholder="Caption"
+              onChange={(e) => onPhotosChange(updatePhoto(photos, photo.id, { caption: e.target.value }))}
+              className="w-full px-3 py-1.5 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+            />
+            <input
+              type="text"
+              value={photo.altText}
+              placeholder="Alt text"
+              aria-label={`Alt text for photo ${i + 1}`}
+              onChange={(e) => onPhotosChange(updatePhoto(photos, photo.id, { altText: e.target.value }))}
+              className="w-full px-3 py-1.5 text-xs text-slate-600 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default PhotoGallery;
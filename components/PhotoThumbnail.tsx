@@ -0,0 +1,22 @@
+import React, { useEffect, useState } from 'react';
+
+interface PhotoThumbnailProps {
+  file: File;
+  alt?: string;
+  className?: string;
+}
+
+// Owns the object URL for one uploaded file so it is revoked when the photo goes away
+const PhotoThumbnail: React.FC<PhotoThumbnailProps> = ({ file, alt = '', className = '' }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return src ? <img src={src} alt={alt} className={`object-cover ${className}`} /> : <div className={`bg-slate-100 ${className}`}></div>;
+};
+
+export default PhotoThumbnail;
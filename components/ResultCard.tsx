@@ -1,168 +1,230 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { GeneratedProductContent } from '../types';
-import { CopyIcon, CheckIcon, TagIcon, ImageIcon, LoaderIcon, SparklesIcon, DownloadIcon, RefreshIcon, PaletteIcon, UploadCloudIcon } from './Icons';
+import React, { useEffect, useState } from 'react';
+import { Branding, CopyAngle, CopyVariant, EditableField, ErrorInfo, GeneratedProductContent, ImageVersionTree, LanguageCode, LocalizedCopy, ProductPhoto, VariantField } from '../types';
+import ExportDialog from './ExportDialog';
+import EditableSection from './EditableSection';
+import LanguageTabs from './LanguageTabs';
+import TemplatePreview from './TemplatePreview';
+import CompareSlider from './CompareSlider';
+import VersionHistory from './VersionHistory';
+import PhotoGallery from './PhotoGallery';
+import StudioShotControls from './StudioShotControls';
+import ErrorNotice from './ErrorNotice';
+import CopyButton from './CopyButton';
+import WhatsAppPanel from './WhatsAppPanel';
+import VariantsPanel from './VariantsPanel';
+import { formatAmount, formatPrice, formatPriceRange, getCurrencySymbol } from '../services/pricing';
+import { DEFAULT_TEMPLATE_ID, IMAGE_TEMPLATES, TemplateId } from '../services/imageTemplates';
+import { TemplateContent, renderTemplateToDataUrl } from '../services/templateRenderer';
+import { EXPORT_PACK_VARIANTS, buildExportPack, exportPackFileName } from '../services/exportPack';
+import { downloadBlob } from '../services/download';
+import { getCurrentVersion, getParentVersion } from '../services/imageVersions';
+import { CutoutMethod, StudioShotOptions } from '../services/studioShot';
+import { skuOf } from '../services/marketplaceExport';
+import { TagIcon, ImageIcon, LoaderIcon, SparklesIcon, DownloadIcon, RefreshIcon, PaletteIcon } from './Icons';
 
 interface ResultCardProps {
   data: GeneratedProductContent;
   marketingImageUrl: string | null;
+  imageVersions: ImageVersionTree;
+  onImageVersionsChange: (tree: ImageVersionTree) => void;
   isGeneratingImage: boolean;
   onGenerateImage: (editInstruction?: string) => void;
+  onCreateStudioShot: (options: StudioShotOptions) => Promise<CutoutMethod | null>;
+  onCancelImage: () => void;
+  imageError: ErrorInfo | null;
+  onDismissImageError: () => void;
+  branding: Branding;
+  onManageBrandKits: () => void;
+  customPrice: number;
+  onCustomPriceChange: (price: number) => void;
+  activeListingId: string | null;
+  photos: ProductPhoto[];
+  onPhotosChange: (photos: ProductPhoto[]) => void;
+  onDataChange: (changes: Partial<GeneratedProductContent>) => void;
+  onRegenerateField: (field: EditableField, instruction: string, language: LanguageCode) => Promise<void>;
+  language: LanguageCode;
+  translations: Partial<Record<LanguageCode, LocalizedCopy>>;
+  translatingLanguages: LanguageCode[];
+  translationError: ErrorInfo | null;
+  onTranslate: (language: LanguageCode) => void;
+  onTranslationChange: (language: LanguageCode, changes: Partial<LocalizedCopy> | null) => void;
+  variants: CopyVariant[];
+  isGeneratingVariants: boolean;
+  variantError: ErrorInfo | null;
+  onGenerateVariants: (fields: VariantField[], angles: CopyAngle[]) => void;
+  onVariantsChange: (variants: CopyVariant[]) => void;
 }
 
-const CopyButton: React.FC<{ text: string; label?: string; className?: string }> = ({ text, label, className }) => {
-  const [copied, setCopied] = useState(false);
+// Keywords are edited comma-separated, hashtags space- or comma-separated
+const splitList = (text: string, separator: RegExp) =>
+  text.split(separator).map(item => item.trim()).filter(Boolean);
 
-  const handleCopy = () => {
-    navigator.clipboard.writeText(text);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
-
-  return (
-    <button 
-      onClick={handleCopy}
-      className={`flex items-center gap-1.5 text-xs font-medium px-3 py-2 sm:py-1.5 rounded-lg transition-all active:scale-95 touch-manipulation ${copied ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'} ${className}`}
-    >
-      {copied ? <CheckIcon className="w-3.5 h-3.5" /> : <CopyIcon className="w-3.5 h-3.5" />}
-      {copied ? 'Copied' : (label || 'Copy')}
-    </button>
-  );
+const LIST_FIELDS: Partial<Record<EditableField, { join: string; split: RegExp; hint: string }>> = {
+  seoKeywords: { join: ', ', split: /,|\n/, hint: 'Separate keywords with commas.' },
+  hashtags: { join: ' ', split: /[\s,]+/, hint: 'Separate hashtags with spaces.' },
 };
 
-const Section: React.FC<{ title: string; children: React.ReactNode; action?: React.ReactNode }> = ({ title, children, action }) => (
-  <div className="mb-4 sm:mb-6 p-4 sm:p-5 bg-white rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-shadow">
-    <div className="flex justify-between items-center mb-3">
-      <h3 className="text-xs sm:text-sm font-bold text-slate-400 uppercase tracking-wider">{title}</h3>
-      {action}
-    </div>
-    <div className="text-slate-800 leading-relaxed text-sm sm:text-base">
-      {children}
-    </div>
-  </div>
-);
+// The whole listing as one message, ready to paste into WhatsApp
+const formatListingText = (copy: LocalizedCopy, priceLabel: string) =>
+  [
+    copy.productName,
+    priceLabel,
+    copy.shortDescription,
+    copy.longDescription,
+    copy.hashtags.map(tag => (tag.startsWith('#') ? tag : `#${tag}`)).join(' '),
+  ].join('\n\n');
 
-const ResultCard: React.FC<ResultCardProps> = ({ data, marketingImageUrl, isGeneratingImage, onGenerateImage }) => {
-  const [customPrice, setCustomPrice] = useState(data.suggestedPrice);
+const ResultCard: React.FC<ResultCardProps> = ({
+  data,
+  marketingImageUrl,
+  imageVersions,
+  onImageVersionsChange,
+  isGeneratingImage,
+  onGenerateImage,
+  onCreateStudioShot,
+  onCancelImage,
+  imageError,
+  onDismissImageError,
+  branding,
+  onManageBrandKits,
+  customPrice,
+  onCustomPriceChange,
+  activeListingId,
+  photos,
+  onPhotosChange,
+  onDataChange,
+  onRegenerateField,
+  language,
+  translations,
+  translatingLanguages,
+  translationError,
+  onTranslate,
+  onTranslationChange,
+  variants,
+  isGeneratingVariants,
+  variantError,
+  onGenerateVariants,
+  onVariantsChange,
+}) => {
   const [editPrompt, setEditPrompt] = useState("");
-  const [businessName, setBusinessName] = useState("");
-  const [logoUrl, setLogoUrl] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [selectedLanguage, setSelectedLanguage] = useState<LanguageCode>(language);
+  // Falls back to the main language when a tab disappears or another listing opens
+  const activeLanguage = selectedLanguage !== language && translations[selectedLanguage] ? selectedLanguage : language;
+  const copy: GeneratedProductContent = { ...data, ...(activeLanguage === language ? {} : translations[activeLanguage]) };
+  const [templateId, setTemplateId] = useState<TemplateId>(DEFAULT_TEMPLATE_ID);
+  const [originalPrice, setOriginalPrice] = useState(0);
+  const [callToAction, setCallToAction] = useState('Order on WhatsApp');
+  const [reframeWithAi, setReframeWithAi] = useState(false);
+  const [packProgress, setPackProgress] = useState<{ done: number; total: number } | null>(null);
+  const [packNotice, setPackNotice] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  // Lifestyle scenes come from the model; plain backgrounds are cut out in the browser
+  const [photoMode, setPhotoMode] = useState<'lifestyle' | 'studio'>('lifestyle');
+  const [isStudioOpen, setIsStudioOpen] = useState(false);
+  const [uploadUrl, setUploadUrl] = useState<string | null>(null);
+  const { businessName, primaryColor, accentColor } = branding;
+  const { currency } = data.suggestedPrice;
+  const priceLabel = formatPrice(customPrice, currency);
+  const template = IMAGE_TEMPLATES[templateId];
+  const discountPercent = originalPrice > customPrice ? Math.round((1 - customPrice / originalPrice) * 100) : 0;
+
+  const cover = photos[0]?.file ?? null;
 
-  // Update local price if data changes
   useEffect(() => {
-    setCustomPrice(data.suggestedPrice);
-  }, [data.suggestedPrice]);
-
-  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const url = URL.createObjectURL(file);
-      setLogoUrl(url);
+    if (!cover) {
+      setUploadUrl(null);
+      return;
     }
-  };
+    const url = URL.createObjectURL(cover);
+    setUploadUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [cover]);
 
-  const handleDownload = () => {
-    if (!marketingImageUrl) return;
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const img = new Image();
-    
-    img.crossOrigin = "anonymous";
-    img.onload = async () => {
-      // Set canvas size to match image
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
-      // Draw Main Image
-      ctx?.drawImage(img, 0, 0);
-      
-      if (!ctx) return;
-
-      const scaleFactor = img.width / 1000; // Base scaling on 1000px width
-
-      // --- Draw Branding (Top Left) ---
-      let brandingY = 40 * scaleFactor;
-      const brandingX = 40 * scaleFactor;
-      
-      // Draw Logo if exists
-      if (logoUrl) {
-        const logoImg = new Image();
-        logoImg.crossOrigin = "anonymous";
-        logoImg.src = logoUrl;
-        await new Promise((resolve) => { logoImg.onload = resolve; logoImg.onerror = resolve; });
-        
-        const logoSize = 120 * scaleFactor;
-        const aspectRatio = logoImg.width / logoImg.height;
-        let drawWidth = logoSize;
-        let drawHeight = logoSize / aspectRatio;
-        
-        // Ensure square-ish logos don't get too tall
-        if (drawHeight > logoSize) {
-            drawHeight = logoSize;
-            drawWidth = logoSize * aspectRatio;
-        }
+  // Compare the current photo with the one it was edited from, or with the cover upload
+  const currentVersion = getCurrentVersion(imageVersions);
+  const compareBeforeUrl = getParentVersion(imageVersions, currentVersion)?.imageUrl ?? uploadUrl;
 
-        // Add a slight drop shadow for visibility
-        ctx.shadowColor = "rgba(0,0,0,0.5)";
-        ctx.shadowBlur = 10 * scaleFactor;
-        
-        ctx.drawImage(logoImg, brandingX, brandingY, drawWidth, drawHeight);
-        
-        brandingY += drawHeight + (20 * scaleFactor); // Move Y down for text
-      }
+  // Everything the template can place; the preview and the download share it
+  const templateContent: TemplateContent = {
+    photoUrl: marketingImageUrl,
+    logoUrl: branding.logoUrl,
+    text: {
+      businessName,
+      tagline: branding.tagline,
+      productName: copy.productName,
+      price: priceLabel,
+      originalPrice: discountPercent ? formatPrice(originalPrice, currency) : '',
+      discount: discountPercent ? `${discountPercent}% off` : '',
+      cta: callToAction,
+      phone: branding.whatsappNumber,
+    },
+  };
 
-      // Draw Business Name if exists
-      if (businessName) {
-        const fontSize = 40 * scaleFactor;
-        ctx.font = `bold ${fontSize}px Inter, sans-serif`;
-        
-        // Text Shadow for readability on any background
-        ctx.shadowColor = "rgba(0,0,0,0.8)";
-        ctx.shadowBlur = 8 * scaleFactor;
-        ctx.fillStyle = "white";
-        ctx.textAlign = "left";
-        ctx.textBaseline = "top";
-        ctx.fillText(businessName, brandingX, brandingY);
-      }
-
-      // --- Draw Price Tag (Bottom Right) ---
-      const fontSize = Math.max(20, img.width * 0.05);
-      const padding = fontSize * 0.6;
-      const x = img.width * 0.95;
-      const y = img.height * 0.95;
-      
-      ctx.font = `bold ${fontSize}px Inter, sans-serif`;
-      const textMetrics = ctx.measureText(customPrice);
-      const textWidth = textMetrics.width;
-      
-      // Draw Shadow/Bg for Price
-      ctx.shadowColor = "rgba(0,0,0,0.3)";
-      ctx.shadowBlur = 10;
-      ctx.fillStyle = "white";
-      
-      // Use roundRect if available (modern browsers), else rect
-      if (ctx.roundRect) {
-        ctx.roundRect(x - textWidth - (padding * 2), y - fontSize - padding, textWidth + (padding * 2), fontSize + (padding * 1.5), 12);
-      } else {
-        ctx.fillRect(x - textWidth - (padding * 2), y - fontSize - padding, textWidth + (padding * 2), fontSize + (padding * 1.5));
-      }
-      ctx.fill();
-      
-      // Draw Price Text
-      ctx.shadowBlur = 0;
-      ctx.fillStyle = "#4f46e5"; // Indigo-600
-      ctx.textAlign = "right";
-      ctx.textBaseline = "bottom";
-      ctx.fillText(customPrice, x - padding, y);
-      
-      // Trigger Download
+  // Rendering can fail on a photo the canvas can't export, such as a tainted or very large one
+  const handleDownload = async () => {
+    setDownloadError(null);
+    try {
+      const url = await renderTemplateToDataUrl(template, templateContent, branding);
       const link = document.createElement('a');
-      link.download = `merchant-ai-${data.productName.replace(/\s+/g, '-').toLowerCase()}.png`;
-      link.href = canvas.toDataURL('image/png');
+      link.download = `merchant-ai-${data.productName.replace(/\s+/g, '-').toLowerCase()}-${template.id}.png`;
+      link.href = url;
       link.click();
+    } catch (err: any) {
+      console.error("Image download error:", err);
+      setDownloadError(err.message || 'Could not create the image.');
+    }
+  };
+
+  const handleDownloadPack = async () => {
+    setPackNotice(null);
+    try {
+      const { blob, fallbacks } = await buildExportPack({
+        content: templateContent,
+        branding,
+        feedTemplateId: templateId,
+        reframeWithAi,
+        photos,
+        productName: data.productName,
+        description: data.shortDescription,
+        listingId: activeListingId,
+        onProgress: (done, total) => setPackProgress({ done, total }),
+      });
+      downloadBlob(exportPackFileName(data.productName), blob);
+      if (fallbacks.length) setPackNotice(`Used the current photo for: ${fallbacks.join(', ')}.`);
+    } catch (err: any) {
+      setPackNotice(err.message || 'Could not build the export pack.');
+    } finally {
+      setPackProgress(null);
+    }
+  };
+
+  // Wires an EditableSection to one listing field, converting lists to and from text
+  // Edits go to whichever language tab is showing
+  const editableProps = (field: EditableField) => {
+    const list = LIST_FIELDS[field];
+    const current = copy[field];
+    return {
+      value: Array.isArray(current) ? current.join(list?.join ?? ', ') : current,
+      hint: list?.hint,
+      onSave: (text: string) => {
+        const changes = { [field]: list ? splitList(text, list.split) : text.trim() };
+        if (activeLanguage === language) onDataChange(changes);
+        else onTranslationChange(activeLanguage, changes);
+      },
+      onRegenerate: (instruction: string) => onRegenerateField(field, instruction, activeLanguage),
     };
-    img.src = marketingImageUrl;
+  };
+
+  const handleRemoveLanguage = (code: LanguageCode) => {
+    onTranslationChange(code, null);
+    if (code === selectedLanguage) setSelectedLanguage(language);
+  };
+
+  const handleAddLanguage = (code: LanguageCode) => {
+    setSelectedLanguage(code);
+    onTranslate(code);
   };
 
   const handleEditGenerate = () => {
@@ -172,30 +234,90 @@ const ResultCard: React.FC<ResultCardProps> = ({ data, marketingImageUrl, isGene
 
   return (
     <div className="animate-fade-in pb-12">
-      <div className="bg-gradient-to-r from-indigo-600 to-purple-600 p-6 rounded-2xl shadow-lg mb-6 text-white relative overflow-hidden">
+      <div className="bg-gradient-to-r from-indigo-600 to-purple-600 p-6 rounded-2xl shadow-lg mb-3 text-white relative overflow-hidden">
         <div className="relative z-10">
-          <h2 className="text-xl sm:text-2xl font-bold mb-1 leading-tight">{data.productName}</h2>
+          <h2 className="text-xl sm:text-2xl font-bold mb-1 leading-tight">{copy.productName}</h2>
           <p className="opacity-90 text-sm mb-4 line-clamp-1">{data.targetAudience}</p>
           <div className="inline-block bg-white/20 backdrop-blur-md px-4 py-2 rounded-full border border-white/10">
             <span className="text-xs uppercase tracking-wide opacity-80 block mb-0.5">Estimated Price</span>
-            <span className="text-lg sm:text-xl font-bold text-white">{data.suggestedPrice}</span>
+            <span className="text-lg sm:text-xl font-bold text-white">{formatPriceRange(data.suggestedPrice)}</span>
           </div>
+          {data.suggestedPrice.rationale && (
+            <p className="text-xs opacity-80 mt-3 max-w-md">{data.suggestedPrice.rationale}</p>
+          )}
         </div>
         {/* Background Decoration */}
         <div className="absolute top-0 right-0 -mt-4 -mr-4 w-32 h-32 bg-white/10 rounded-full blur-2xl"></div>
         <div className="absolute bottom-0 left-0 -mb-4 -ml-4 w-24 h-24 bg-white/10 rounded-full blur-xl"></div>
       </div>
 
+      <LanguageTabs
+        primary={language}
+        translated={Object.keys(translations) as LanguageCode[]}
+        translating={translatingLanguages}
+        active={activeLanguage}
+        onSelect={setSelectedLanguage}
+        onAdd={handleAddLanguage}
+        onRemove={handleRemoveLanguage}
+        action={
+          <div className="flex items-center gap-2">
+            <CopyButton text={formatListingText(copy, priceLabel)} label="Copy Full Listing" />
+            <button
+              onClick={() => setIsExportOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 shadow-sm active:scale-95 transition-all"
+            >
+              <DownloadIcon className="w-4 h-4" /> Export to Marketplace
+            </button>
+          </div>
+        }
+      />
+      {translationError && <ErrorNotice error={translationError} className="-mt-4 mb-6" />}
+
+      {isExportOpen && (
+        <ExportDialog
+          sources={[{ id: activeListingId ?? undefined, data: copy, customPrice, branding, photos }]}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {photos.length > 0 && <PhotoGallery photos={photos} onPhotosChange={onPhotosChange} />}
+
       {/* Smart Image Editor Section */}
       <div className="mb-6 p-4 sm:p-5 bg-indigo-50 rounded-xl border border-indigo-100">
         <div className="flex justify-between items-center mb-3">
             <h3 className="text-xs sm:text-sm font-bold text-indigo-400 uppercase tracking-wider flex items-center gap-1">
                 <ImageIcon className="w-4 h-4" /> Smart Image Editor
             </h3>
+            {isGeneratingImage && (
+                <button onClick={onCancelImage} className="text-xs font-semibold text-indigo-500 hover:text-indigo-700">
+                    Cancel
+                </button>
+            )}
         </div>
+        {imageError && <ErrorNotice error={imageError} onDismiss={onDismissImageError} className="mb-3" />}
         
         {!marketingImageUrl ? (
             <div className="flex flex-col items-center justify-center p-8 bg-white rounded-lg border border-dashed border-indigo-200">
+                <div className="flex p-1 mb-4 bg-slate-100 rounded-lg text-xs font-semibold">
+                    {([['lifestyle', 'Lifestyle scene'], ['studio', 'Plain background']] as const).map(([mode, label]) => (
+                        <button
+                            key={mode}
+                            onClick={() => setPhotoMode(mode)}
+                            className={`px-3 py-1.5 rounded-md transition-all ${photoMode === mode ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                {photoMode === 'studio' ? (
+                    <div className="w-full max-w-md space-y-3">
+                        <p className="text-sm text-slate-600 text-center">
+                            Cut out your product and centre it on a clean background, as Jumia and other marketplaces require.
+                        </p>
+                        <StudioShotControls isWorking={isGeneratingImage} hasPhoto={photos.length > 0} onCreate={onCreateStudioShot} />
+                    </div>
+                ) : (
+                <>
                 <p className="text-sm text-slate-600 mb-4 text-center">
                     Generate a high-quality, professional lifestyle shot of this product.
                 </p>
@@ -220,81 +342,108 @@ const ResultCard: React.FC<ResultCardProps> = ({ data, marketingImageUrl, isGene
                         </>
                     )}
                 </button>
+                </>
+                )}
             </div>
         ) : (
             <div className="bg-white p-3 rounded-lg border border-indigo-100 shadow-sm space-y-4">
-                {/* Image Canvas Area */}
-                <div className="relative w-full aspect-square rounded-lg overflow-hidden group border border-slate-100 bg-slate-100">
-                    <img 
-                        src={marketingImageUrl} 
-                        alt="AI Generated Marketing" 
-                        className="w-full h-full object-cover"
-                    />
-                    
-                    {/* Branding Overlay (Preview) */}
-                    <div className="absolute top-4 left-4 flex flex-col items-start gap-2 max-w-[50%]">
-                        {logoUrl && (
-                            <img src={logoUrl} alt="Logo" className="w-16 h-16 sm:w-24 sm:h-24 object-contain drop-shadow-lg" />
-                        )}
-                        {businessName && (
-                            <span className="text-white font-bold text-lg sm:text-xl drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)] break-words leading-tight">
-                                {businessName}
-                            </span>
-                        )}
-                    </div>
-
-                    {/* Editable Price Tag Overlay */}
-                    <div className="absolute bottom-4 right-4 bg-white shadow-lg rounded-xl px-3 py-1.5 flex items-center gap-1 border border-slate-100 transform transition-transform hover:scale-105">
-                        <span className="text-slate-400 text-xs font-semibold">₦</span>
-                        <input 
-                            type="text" 
-                            value={customPrice.replace(/[^0-9.,]/g, '')}
-                            onChange={(e) => setCustomPrice(`₦${e.target.value}`)}
-                            className="w-20 text-indigo-600 font-bold text-lg bg-transparent border-none p-0 focus:ring-0 text-right"
-                            aria-label="Edit Price"
-                        />
-                    </div>
+                {/* Template picker */}
+                <div className="flex gap-1.5 overflow-x-auto pb-1">
+                    {Object.values(IMAGE_TEMPLATES).map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => setTemplateId(option.id)}
+                            title={option.description}
+                            className={`px-3 py-1.5 rounded-full text-xs font-semibold whitespace-nowrap border transition-all ${option.id === templateId ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+                        >
+                            {option.name}
+                        </button>
+                    ))}
                 </div>
 
-                {/* Personalization Controls */}
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-2">
-                    <div className="space-y-1">
-                        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Business Name</label>
-                        <input 
-                            type="text" 
-                            placeholder="Your Brand Name" 
-                            value={businessName}
-                            onChange={(e) => setBusinessName(e.target.value)}
-                            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+                {/* Live preview, drawn by the same renderer as the download */}
+                {isComparing && compareBeforeUrl && currentVersion ? (
+                    <CompareSlider
+                        beforeUrl={compareBeforeUrl}
+                        afterUrl={currentVersion.imageUrl}
+                        beforeLabel={currentVersion.parentId ? 'Previous' : 'Your photo'}
+                        afterLabel="Current"
+                    />
+                ) : (
+                    <div className="flex justify-center rounded-lg overflow-hidden border border-slate-100 bg-slate-100">
+                        <TemplatePreview
+                            template={template}
+                            content={templateContent}
+                            branding={branding}
+                            className="block max-w-full max-h-[28rem] w-auto h-auto"
                         />
                     </div>
-                    <div className="space-y-1">
-                        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Logo</label>
-                        <div className="flex gap-2">
-                            <input 
-                                type="file" 
-                                accept="image/*"
-                                ref={fileInputRef}
-                                onChange={handleLogoUpload}
-                                className="hidden"
+                )}
+
+                <VersionHistory
+                    tree={imageVersions}
+                    onChange={onImageVersionsChange}
+                    isComparing={isComparing}
+                    onToggleCompare={() => setIsComparing(prev => !prev)}
+                    canCompare={Boolean(compareBeforeUrl && currentVersion)}
+                />
+
+                {/* Template text */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <label className="space-y-1">
+                        <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Price</span>
+                        <div className="flex items-center gap-1 px-3 py-2 border border-slate-200 rounded-lg focus-within:ring-2 focus-within:ring-indigo-100 focus-within:border-indigo-500">
+                            <span className="text-slate-400 text-xs font-semibold">{getCurrencySymbol(currency)}</span>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                value={customPrice ? formatAmount(customPrice, currency) : ''}
+                                onChange={(e) => onCustomPriceChange(Number(e.target.value.replace(/[^0-9]/g, '')) || 0)}
+                                className="w-full text-sm font-semibold text-slate-800 border-none p-0 focus:ring-0"
+                                aria-label="Edit Price"
                             />
-                            <button 
-                                onClick={() => fileInputRef.current?.click()}
-                                className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg bg-slate-50 text-slate-600 hover:bg-slate-100 flex items-center justify-center gap-2"
-                            >
-                                <UploadCloudIcon className="w-4 h-4" /> 
-                                {logoUrl ? 'Change Logo' : 'Upload Logo'}
-                            </button>
-                            {logoUrl && (
-                                <button 
-                                    onClick={() => setLogoUrl(null)}
-                                    className="px-3 py-2 text-sm border border-red-200 rounded-lg bg-red-50 text-red-600 hover:bg-red-100"
-                                >
-                                    ✕
-                                </button>
-                            )}
                         </div>
+                    </label>
+                    <label className="space-y-1">
+                        <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Was (for discounts)</span>
+                        <div className="flex items-center gap-1 px-3 py-2 border border-slate-200 rounded-lg focus-within:ring-2 focus-within:ring-indigo-100 focus-within:border-indigo-500">
+                            <span className="text-slate-400 text-xs font-semibold">{getCurrencySymbol(currency)}</span>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                placeholder="Optional"
+                                value={originalPrice ? formatAmount(originalPrice, currency) : ''}
+                                onChange={(e) => setOriginalPrice(Number(e.target.value.replace(/[^0-9]/g, '')) || 0)}
+                                className="w-full text-sm text-slate-800 border-none p-0 focus:ring-0"
+                            />
+                        </div>
+                    </label>
+                    <label className="space-y-1">
+                        <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Call to Action</span>
+                        <input
+                            type="text"
+                            value={callToAction}
+                            onChange={(e) => setCallToAction(e.target.value)}
+                            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
+                        />
+                    </label>
+                </div>
+
+                {/* Brand kit used for the overlay */}
+                <div className="flex items-center gap-3 pt-2">
+                    <div className="flex -space-x-1">
+                        <span className="w-5 h-5 rounded-full border-2 border-white shadow" style={{ backgroundColor: primaryColor }}></span>
+                        <span className="w-5 h-5 rounded-full border-2 border-white shadow" style={{ backgroundColor: accentColor }}></span>
                     </div>
+                    <p className="flex-1 min-w-0 text-sm text-slate-600 truncate">
+                        {businessName ? <>Branded as <span className="font-semibold text-slate-800">{businessName}</span></> : 'No brand kit selected'}
+                    </p>
+                    <button
+                        onClick={onManageBrandKits}
+                        className="px-3 py-2 text-sm border border-slate-200 rounded-lg bg-slate-50 text-slate-600 hover:bg-slate-100 flex items-center gap-2"
+                    >
+                        <PaletteIcon className="w-4 h-4" /> {businessName ? 'Edit Brand Kit' : 'Set Up Brand Kit'}
+                    </button>
                 </div>
 
                 <div className="h-px bg-slate-100 my-2"></div>
@@ -308,7 +457,7 @@ const ResultCard: React.FC<ResultCardProps> = ({ data, marketingImageUrl, isGene
                             </div>
                             <input 
                                 type="text" 
-                                placeholder="Edit AI Image (e.g. 'Add a luxury background')" 
+                                placeholder="Edit this version (e.g. 'Add a luxury background')" 
                                 className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500"
                                 value={editPrompt}
                                 onChange={(e) => setEditPrompt(e.target.value)}
@@ -324,66 +473,140 @@ const ResultCard: React.FC<ResultCardProps> = ({ data, marketingImageUrl, isGene
                         </button>
                     </div>
 
+                    <div className="p-3 rounded-lg border border-slate-200 space-y-3">
+                        <button
+                            onClick={() => setIsStudioOpen(open => !open)}
+                            className="w-full flex items-center justify-between text-sm font-semibold text-slate-700"
+                        >
+                            Plain background shot
+                            <span className="text-xs font-normal text-slate-400">{isStudioOpen ? 'Hide' : 'For marketplace main images'}</span>
+                        </button>
+                        {isStudioOpen && (
+                            <StudioShotControls isWorking={isGeneratingImage} hasPhoto={photos.length > 0} onCreate={onCreateStudioShot} />
+                        )}
+                    </div>
+
                     <button 
                         onClick={handleDownload}
                         className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white py-2.5 rounded-lg text-sm font-semibold hover:bg-indigo-700 active:scale-95 transition-all shadow-indigo-200 shadow-lg"
                     >
                         <DownloadIcon className="w-4 h-4" /> Download Final Image
                     </button>
+                    {downloadError && <p className="text-xs text-red-600">{downloadError}</p>}
+
+                    {/* One zip with every platform size */}
+                    <div className="p-3 rounded-lg border border-slate-200 space-y-2">
+                        <button
+                            onClick={handleDownloadPack}
+                            disabled={packProgress !== null}
+                            className="w-full flex items-center justify-center gap-2 bg-white border border-indigo-200 text-indigo-700 py-2.5 rounded-lg text-sm font-semibold hover:bg-indigo-50 disabled:opacity-60 disabled:cursor-wait"
+                        >
+                            {packProgress ? <LoaderIcon className="w-4 h-4" /> : <DownloadIcon className="w-4 h-4" />}
+                            {packProgress ? `Building ${Math.min(packProgress.done + 1, packProgress.total)} of ${packProgress.total}…` : 'Download Export Pack (.zip)'}
+                        </button>
+                        <p className="text-xs text-slate-500">{EXPORT_PACK_VARIANTS.map(variant => variant.label).join(' · ')}</p>
+                        <label className="flex items-center gap-2 text-xs text-slate-600">
+                            <input
+                                type="checkbox"
+                                checked={reframeWithAi}
+                                onChange={(e) => setReframeWithAi(e.target.checked)}
+                                disabled={packProgress !== null}
+                                className="rounded border-slate-300 text-indigo-600"
+                            />
+                            Reframe the photo with AI for each size (slower, no awkward crops)
+                        </label>
+                        {packNotice && <p className="text-xs text-amber-700">{packNotice}</p>}
+                    </div>
                 </div>
             </div>
         )}
       </div>
 
-      <Section 
-        title="Social Media Caption" 
-        action={<CopyButton text={data.socialMediaPost} label="Copy Post" />}
+      <WhatsAppPanel
+        copy={copy}
+        priceLabel={priceLabel}
+        branding={branding}
+        reference={skuOf({ id: activeListingId ?? undefined, data: copy, customPrice, branding, photos })}
+        renderImage={async () => (marketingImageUrl ? renderTemplateToDataUrl(template, templateContent, branding) : null)}
+        onManageBrandKits={onManageBrandKits}
+      />
+
+      <EditableSection
+        title="Product Name"
+        multiline={false}
+        action={<CopyButton text={copy.productName} />}
+        {...editableProps('productName')}
+      >
+        <p className="text-base font-semibold">{copy.productName}</p>
+      </EditableSection>
+
+      <EditableSection
+        title="Social Media Caption"
+        action={<CopyButton text={copy.socialMediaPost} label="Copy Post" />}
+        {...editableProps('socialMediaPost')}
       >
         <div className="whitespace-pre-wrap font-medium text-slate-700 bg-slate-50 p-4 rounded-lg border border-slate-200 text-sm">
-            {data.socialMediaPost}
+            {copy.socialMediaPost}
         </div>
-      </Section>
+      </EditableSection>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-        <Section 
-            title="Short Description" 
-            action={<CopyButton text={data.shortDescription} />}
+        <EditableSection
+            title="Short Description"
+            action={<CopyButton text={copy.shortDescription} />}
+            {...editableProps('shortDescription')}
         >
-            <p className="text-sm">{data.shortDescription}</p>
-        </Section>
-        <Section 
-            title="SEO Keywords" 
-            action={<CopyButton text={data.seoKeywords.join(', ')} />}
+            <p className="text-sm">{copy.shortDescription}</p>
+        </EditableSection>
+        <EditableSection
+            title="SEO Keywords"
+            action={<CopyButton text={copy.seoKeywords.join(', ')} />}
+            {...editableProps('seoKeywords')}
         >
             <div className="flex flex-wrap gap-2">
-            {data.seoKeywords.map((kw, i) => (
+            {copy.seoKeywords.map((kw, i) => (
                 <span key={i} className="px-2 py-1 bg-blue-50 text-blue-700 text-xs rounded-md border border-blue-100">
                 {kw}
                 </span>
             ))}
             </div>
-        </Section>
+        </EditableSection>
       </div>
 
-      <Section 
-        title="Long Description" 
-        action={<CopyButton text={data.longDescription} />}
+      {/* Variants are written in the main language, so they only show on its tab */}
+      {activeLanguage === language && (
+        <VariantsPanel
+          data={data}
+          variants={variants}
+          isGenerating={isGeneratingVariants}
+          error={variantError}
+          onGenerate={onGenerateVariants}
+          onVariantsChange={onVariantsChange}
+          onDataChange={onDataChange}
+        />
+      )}
+
+      <EditableSection
+        title="Long Description"
+        action={<CopyButton text={copy.longDescription} />}
+        {...editableProps('longDescription')}
       >
-        <p className="text-sm text-slate-600 whitespace-pre-wrap">{data.longDescription}</p>
-      </Section>
+        <p className="text-sm text-slate-600 whitespace-pre-wrap">{copy.longDescription}</p>
+      </EditableSection>
 
-      <Section 
-        title="Hashtags" 
-        action={<CopyButton text={data.hashtags.join(' ')} label="Copy All" />}
+      <EditableSection
+        title="Hashtags"
+        action={<CopyButton text={copy.hashtags.join(' ')} label="Copy All" />}
+        {...editableProps('hashtags')}
       >
         <div className="flex flex-wrap gap-2 text-indigo-600 font-medium text-sm">
-          {data.hashtags.map((tag, i) => (
+          {copy.hashtags.map((tag, i) => (
             <span key={i} className="hover:text-indigo-800 cursor-pointer">
               {tag.startsWith('#') ? tag : `#${tag}`}
             </span>
           ))}
         </div>
-      </Section>
+      </EditableSection>
     </div>
   );
 };
@@ -0,0 +1,307 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SavedListing, ScheduledPost, SocialChannel } from '../types';
+import { CHANNELS, REMINDER_OPTIONS, fromDateTimeInputs, toDateInput, toTimeInput } from '../services/contentCalendar';
+import { ReminderPermission } from '../services/postReminders';
+import { editLifestyleImage, writeChannelCaption } from '../services/geminiService';
+import { flattenVersions } from '../services/imageVersions';
+import { getMarket } from '../services/markets';
+import { CheckIcon, ImageIcon, LoaderIcon, SparklesIcon, TrashIcon } from './Icons';
+
+interface ScheduledPostEditorProps {
+  post: ScheduledPost;
+  isNew: boolean;
+  listings: SavedListing[];
+  // Captions of the listing's other planned posts, so a written caption takes a new angle
+  getOtherCaptions: (listingId: string, postId: string) => string[];
+  reminderPermission: ReminderPermission;
+  onEnableReminders: () => void;
+  onSave: (post: ScheduledPost) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white focus:ring-2 focus:ring-indigo-100 focus:border-indigo-500';
+const labelClass = 'text-xs font-semibold text-slate-500 uppercase tracking-wide';
+
+const ScheduledPostEditor: React.FC<ScheduledPostEditorProps> = ({
+  post,
+  isNew,
+  listings,
+  getOtherCaptions,
+  reminderPermission,
+  onEnableReminders,
+  onSave,
+  onDelete,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState(post);
+  const [date, setDate] = useState(() => toDateInput(post.scheduledAt));
+  const [time, setTime] = useState(() => toTimeInput(post.scheduledAt));
+  const [busy, setBusy] = useState<'caption' | 'image' | 'save' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const listing = listings.find(item => item.id === draft.listingId);
+  const channel = CHANNELS[draft.channel];
+  const versions = listing ? flattenVersions(listing.imageVersions).map(({ version }) => version.imageUrl) : [];
+  // A reframed image made for this slot isn't one of the listing's versions
+  const imageChoices = draft.imageUrl && !versions.includes(draft.imageUrl) ? [draft.imageUrl, ...versions] : versions;
+  const isOverLimit = draft.caption.length > channel.captionLimit;
+
+  const update = (changes: Partial<ScheduledPost>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleListingChange = (listingId: string) => {
+    const next = listings.find(item => item.id === listingId);
+    const previousDefault = listing?.data.socialMediaPost ?? '';
+    update({
+      listingId,
+      // Keep a caption the seller has already worked on
+      caption: !draft.caption || draft.caption === previousDefault ? next?.data.socialMediaPost ?? '' : draft.caption,
+      imageUrl: next?.marketingImageUrl ?? null,
+    });
+  };
+
+  const startRequest = () => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
+  const handleWriteCaption = async () => {
+    if (!listing) return;
+    setBusy('caption');
+    setError(null);
+    try {
+      const caption = await writeChannelCaption(listing.data, draft.channel, getOtherCaptions(listing.id, draft.id), {
+        market: getMarket(listing.marketId),
+        language: listing.language,
+        brand: listing.branding,
+        listingId: listing.id,
+        settings: listing.settings,
+        signal: startRequest(),
+      });
+      update({ caption });
+    } catch (err: any) {
+      if (err.code !== 'cancelled') setError(err.message || 'Could not write the caption.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleReframe = async () => {
+    if (!listing || !draft.imageUrl) return;
+    setBusy('image');
+    setError(null);
+    try {
+      const imageUrl = await editLifestyleImage(
+        draft.imageUrl,
+        `Recompose this photo into a ${channel.aspectRatio} frame for a ${channel.label} post, extending the background naturally`,
+        channel.aspectRatio,
+        startRequest(),
+        listing.id
+      );
+      update({ imageUrl });
+    } catch (err: any) {
+      if (err.code !== 'cancelled') setError(err.message || 'Could not reframe the image.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!listing) {
+      setError('Choose a product for this post.');
+      return;
+    }
+    if (!date || !time) {
+      setError('Choose a date and time.');
+      return;
+    }
+    const scheduledAt = fromDateTimeInputs(date, time);
+    const isRescheduled = scheduledAt !== post.scheduledAt || draft.reminderMinutes !== post.reminderMinutes;
+    setBusy('save');
+    setError(null);
+    try {
+      // A moved post or changed reminder should remind again
+      await onSave({ ...draft, scheduledAt, remindedAt: isRescheduled ? null : draft.remindedAt });
+    } catch (err) {
+      console.error("Calendar save error:", err);
+      setError('Could not save this post.');
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Remove this post from the calendar?')) return;
+    await onDelete(draft.id);
+  };
+
+  return (
+    <>
+      <div className="flex-1 px-5 py-4 space-y-4 overflow-y-auto">
+        <div className="space-y-1">
+          <label className={labelClass}>Product</label>
+          <select value={draft.listingId} onChange={(e) => handleListingChange(e.target.value)} className={inputClass}>
+            {!listing && <option value={draft.listingId}>Choose a saved listing</option>}
+            {listings.map(item => (
+              <option key={item.id} value={item.id}>{item.data.productName}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <label className={labelClass}>Channel</label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {(Object.keys(CHANNELS) as SocialChannel[]).map(option => (
+              <button
+                key={option}
+                onClick={() => update({ channel: option })}
+                className={`px-3 py-2 rounded-lg border text-sm font-semibold transition-colors ${option === draft.channel ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+              >
+                {CHANNELS[option].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className={labelClass}>Date</label>
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Time</label>
+            <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <label className={labelClass}>Caption</label>
+            <span className={`text-xs ${isOverLimit ? 'font-semibold text-red-600' : 'text-slate-400'}`}>
+              {draft.caption.length} / {channel.captionLimit}
+            </span>
+          </div>
+          <textarea
+            value={draft.caption}
+            onChange={(e) => update({ caption: e.target.value })}
+            rows={6}
+            className={`${inputClass} resize-y`}
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleWriteCaption}
+              disabled={!listing || busy !== null}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50"
+            >
+              {busy === 'caption' ? <LoaderIcon className="w-3.5 h-3.5" /> : <SparklesIcon className="w-3.5 h-3.5" />}
+              Write for {channel.label}
+            </button>
+            {listing && draft.caption !== listing.data.socialMediaPost && (
+              <button
+                onClick={() => update({ caption: listing.data.socialMediaPost })}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-500 hover:bg-slate-100"
+              >
+                Use listing post
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Image</label>
+          {imageChoices.length === 0 ? (
+            <p className="text-sm text-slate-400">This listing has no marketing photos yet. Create one from the listing, or post without an image.</p>
+          ) : (
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              <button
+                onClick={() => update({ imageUrl: null })}
+                className={`w-16 h-16 shrink-0 rounded-lg border-2 text-xs text-slate-500 ${draft.imageUrl === null ? 'border-indigo-500' : 'border-slate-200'}`}
+              >
+                None
+              </button>
+              {imageChoices.map(url => (
+                <button
+                  key={url}
+                  onClick={() => update({ imageUrl: url })}
+                  className={`relative w-16 h-16 shrink-0 rounded-lg border-2 overflow-hidden bg-slate-100 ${draft.imageUrl === url ? 'border-indigo-500' : 'border-transparent'}`}
+                >
+                  <img src={url} alt="" className="w-full h-full object-cover" />
+                  {draft.imageUrl === url && <CheckIcon className="absolute top-1 right-1 w-4 h-4 text-white bg-indigo-500 rounded-full p-0.5" />}
+                </button>
+              ))}
+            </div>
+          )}
+          {draft.imageUrl && (
+            <button
+              onClick={handleReframe}
+              disabled={busy !== null}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-50"
+            >
+              {busy === 'image' ? <LoaderIcon className="w-3.5 h-3.5" /> : <ImageIcon className="w-3.5 h-3.5" />}
+              Reframe for {channel.label} ({channel.aspectRatio})
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-end">
+          <div className="space-y-1">
+            <label className={labelClass}>Reminder</label>
+            <select
+              value={draft.reminderMinutes ?? ''}
+              onChange={(e) => update({ reminderMinutes: e.target.value === '' ? null : Number(e.target.value) })}
+              className={inputClass}
+            >
+              {REMINDER_OPTIONS.map(option => (
+                <option key={option.label} value={option.minutes ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {!isNew && (
+            <label className="flex items-center gap-2 py-2 text-sm text-slate-600">
+              <input type="checkbox" checked={draft.posted} onChange={(e) => update({ posted: e.target.checked })} className="rounded border-slate-300" />
+              Posted
+            </label>
+          )}
+        </div>
+        {draft.reminderMinutes !== null && reminderPermission === 'default' && (
+          <p className="text-xs text-slate-500">
+            Reminders need notification permission.{' '}
+            <button onClick={onEnableReminders} className="font-semibold text-indigo-600 underline">Turn on reminders</button>
+          </p>
+        )}
+        {draft.reminderMinutes !== null && (reminderPermission === 'denied' || reminderPermission === 'unsupported') && (
+          <p className="text-xs text-amber-600">This browser won't show reminders. Export the week to your calendar app instead.</p>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <div className="px-5 py-4 border-t border-slate-100 flex gap-2">
+        {!isNew && (
+          <button
+            onClick={handleDelete}
+            className="px-3 py-2.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 flex items-center gap-1.5"
+          >
+            <TrashIcon className="w-4 h-4" /> Remove
+          </button>
+        )}
+        <button onClick={onCancel} className="ml-auto px-4 py-2.5 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={busy !== null}
+          className="flex items-center justify-center gap-2 bg-indigo-600 text-white px-5 py-2.5 rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {busy === 'save' ? <LoaderIcon className="w-4 h-4" /> : <CheckIcon className="w-4 h-4" />}
+          {isNew ? 'Add to Calendar' : 'Save'}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default ScheduledPostEditor;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { GeneratedProductContent } from '../types';
+import { formatPrice } from '../services/pricing';
+import { LoaderIcon } from './Icons';
+
+interface StreamingPreviewProps {
+  partial: Partial<GeneratedProductContent>;
+}
+
+const Placeholder: React.FC<{ lines?: number }> = ({ lines = 2 }) => (
+  <div className="space-y-2 animate-pulse">
+    {Array.from({ length: lines }, (_, i) => (
+      <div key={i} className={`h-3 bg-slate-200 rounded ${i === lines - 1 ? 'w-2/3' : 'w-full'}`}></div>
+    ))}
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="mb-4 sm:mb-6 p-4 sm:p-5 bg-white rounded-xl border border-slate-100 shadow-sm">
+    <h3 className="text-xs sm:text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">{title}</h3>
+    {children}
+  </div>
+);
+
+// Only lists of strings are shown; the last entry may still be arriving
+const stringsOf = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+
+// Read-only mirror of the result card, filled in section by section while the listing streams in
+const StreamingPreview: React.FC<StreamingPreviewProps> = ({ partial }) => {
+  const { productName, targetAudience, socialMediaPost, shortDescription, longDescription, suggestedPrice } = partial;
+  const keywords = stringsOf(partial.seoKeywords);
+  const hashtags = stringsOf(partial.hashtags);
+  const hasPrice = typeof suggestedPrice?.min === 'number' && typeof suggestedPrice?.max === 'number' && typeof suggestedPrice?.currency === 'string';
+
+  return (
+    <div className="pb-12" aria-busy="true">
+      <div className="bg-gradient-to-r from-indigo-600 to-purple-600 p-6 rounded-2xl shadow-lg mb-6 text-white">
+        <h2 className="text-xl sm:text-2xl font-bold mb-1 leading-tight">{productName || 'Naming your product…'}</h2>
+        <p className="opacity-90 text-sm mb-4 line-clamp-1">{targetAudience || 'Writing your listing…'}</p>
+        <div className="inline-flex items-center gap-2 bg-white/20 backdrop-blur-md px-4 py-2 rounded-full border border-white/10">
+          {hasPrice ? (
+            <span className="text-lg font-bold">
+              {formatPrice(suggestedPrice!.min, suggestedPrice!.currency!)} – {formatPrice(suggestedPrice!.max, suggestedPrice!.currency!)}
+            </span>
+          ) : (
+            <span className="text-sm flex items-center gap-2"><LoaderIcon className="w-4 h-4" /> Checking prices…</span>
+          )}
+        </div>
+      </div>
+
+      <Section title="Social Media Caption">
+        {socialMediaPost ? (
+          <div className="whitespace-pre-wrap font-medium text-slate-700 bg-slate-50 p-4 rounded-lg border border-slate-200 text-sm">{socialMediaPost}</div>
+        ) : <Placeholder lines={3} />}
+      </Section>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <Section title="Short Description">
+          {shortDescription ? <p className="text-sm">{shortDescription}</p> : <Placeholder />}
+        </Section>
+        <Section title="SEO Keywords">
+          {keywords.length ? (
+            <div className="flex flex-wrap gap-2">
+              {keywords.map((kw, i) => (
+                <span key={i} className="px-2 py-1 bg-blue-50 text-blue-700 text-xs rounded-md border border-blue-100">{kw}</span>
+              ))}
+            </div>
+          ) : <Placeholder />}
+        </Section>
+      </div>
+
+      <Section title="Long Description">
+        {longDescription ? <p className="text-sm text-slate-600 whitespace-pre-wrap">{longDescription}</p> : <Placeholder lines={4} />}
+      </Section>
+
+      <Section title="Hashtags">
+        {hashtags.length ? (
+          <div className="flex flex-wrap gap-2 text-indigo-600 font-medium text-sm">
+            {hashtags.map((tag, i) => <span key={i}>{tag.startsWith('#') ? tag : `#${tag}`}</span>)}
+          </div>
+        ) : <Placeholder lines={1} />}
+      </Section>
+    </div>
+  );
+};
+
+export default StreamingPreview;
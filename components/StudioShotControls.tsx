@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { CutoutMethod, DEFAULT_STUDIO_OPTIONS, SHADOW_LABELS, STUDIO_BACKGROUNDS, ShadowStyle, StudioShotOptions } from '../services/studioShot';
+import { ImageIcon, LoaderIcon } from './Icons';
+
+interface StudioShotControlsProps {
+  isWorking: boolean;
+  // A cut-out needs a real photo of the product
+  hasPhoto: boolean;
+  onCreate: (options: StudioShotOptions) => Promise<CutoutMethod | null>;
+}
+
+const StudioShotControls: React.FC<StudioShotControlsProps> = ({ isWorking, hasPhoto, onCreate }) => {
+  const [options, setOptions] = useState<StudioShotOptions>(DEFAULT_STUDIO_OPTIONS);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const update = (changes: Partial<StudioShotOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const handleCreate = async () => {
+    setNotice(null);
+    const method = await onCreate(options);
+    if (method === 'ai') setNotice('The photo background was too busy to cut out on this device, so AI isolated the product.');
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide mr-1">Background</span>
+        {STUDIO_BACKGROUNDS.map(color => (
+          <button
+            key={color}
+            onClick={() => update({ background: color })}
+            className={`w-7 h-7 rounded-full border-2 transition-all ${options.background === color ? 'border-indigo-600 scale-110' : 'border-slate-200'}`}
+            style={{ backgroundColor: color }}
+            aria-label={`Background ${color}`}
+          ></button>
+        ))}
+        <input
+          type="color"
+          value={options.background}
+          onChange={(e) => update({ background: e.target.value })}
+          className="w-7 h-7 p-0 border border-slate-200 rounded-full bg-white cursor-pointer"
+          aria-label="Custom background colour"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-xs text-slate-600 space-y-1">
+          <span className="block font-semibold text-slate-500 uppercase tracking-wide">Padding {Math.round(options.padding * 100)}%</span>
+          <input
+            type="range"
+            min={0}
+            max={0.3}
+            step={0.02}
+            value={options.padding}
+            onChange={(e) => update({ padding: Number(e.target.value) })}
+            className="w-full accent-indigo-600"
+          />
+        </label>
+        <label className="text-xs text-slate-600 space-y-1">
+          <span className="block font-semibold text-slate-500 uppercase tracking-wide">Shadow</span>
+          <select
+            value={options.shadow}
+            onChange={(e) => update({ shadow: e.target.value as ShadowStyle })}
+            className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-lg bg-white"
+          >
+            {(Object.keys(SHADOW_LABELS) as ShadowStyle[]).map(shadow => (
+              <option key={shadow} value={shadow}>{SHADOW_LABELS[shadow]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <button
+        onClick={handleCreate}
+        disabled={isWorking || !hasPhoto}
+        className="w-full px-4 py-2.5 rounded-lg font-semibold text-sm flex items-center justify-center gap-2 bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isWorking ? <LoaderIcon className="w-4 h-4" /> : <ImageIcon className="w-4 h-4" />}
+        {isWorking ? 'Cutting out…' : 'Create Plain Background Shot'}
+      </button>
+      {!hasPhoto && <p className="text-xs text-slate-500">Upload a product photo to cut it out.</p>}
+      {notice && <p className="text-xs text-amber-700">{notice}</p>}
+    </div>
+  );
+};
+
+export default StudioShotControls;
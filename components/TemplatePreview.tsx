@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { Branding } from '../types';
+import { ImageTemplate } from '../services/imageTemplates';
+import { TemplateContent, renderTemplate } from '../services/templateRenderer';
+
+interface TemplatePreviewProps {
+  template: ImageTemplate;
+  content: TemplateContent;
+  branding: Branding;
+  className?: string;
+}
+
+// Draws with the same renderer as the PNG export, scaled down by CSS
+const TemplatePreview: React.FC<TemplatePreviewProps> = ({ template, content, branding, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textKey = JSON.stringify(content.text);
+
+  useEffect(() => {
+    let isCurrent = true;
+    renderTemplate(template, content, branding)
+      .then(rendered => {
+        const canvas = canvasRef.current;
+        // A newer render may have started while fonts and images loaded
+        if (!isCurrent || !canvas) return;
+        canvas.width = rendered.width;
+        canvas.height = rendered.height;
+        canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+      })
+      .catch(err => console.error("Template preview error:", err));
+    return () => { isCurrent = false; };
+  }, [template, content.photoUrl, content.logoUrl, textKey, branding]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      style={{ aspectRatio: `${template.width} / ${template.height}` }}
+      aria-label={`${template.name} preview`}
+    />
+  );
+};
+
+export default TemplatePreview;
@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SavedListing, UsageOperation, UsageRecord } from '../types';
+import { USAGE_LIMITS, UsageLimits, UsageTotals, getUsageSince, startOfDay, startOfMonth, subscribeToUsage, totalUsage } from '../services/usageStore';
+import { formatUsd } from '../services/usageCosts';
+import { getAllListings } from '../services/historyStore';
+import { LoaderIcon, XIcon } from './Icons';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+const CHART_DAYS = 14;
+
+// Local midnight `count` days before `time`, safe across daylight saving changes
+const daysBefore = (time: number, count: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - count).getTime();
+};
+
+const OPERATION_LABELS: Record<UsageOperation, string> = {
+  listing: 'New listings',
+  regenerate: 'Section rewrites',
+  translate: 'Translations',
+  variants: 'A/B variants',
+  caption: 'Channel captions',
+  image: 'AI photos',
+  imageEdit: 'Photo edits',
+  cutout: 'Background removal',
+};
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const Meter: React.FC<{ label: string; used: number; limit?: number; format?: (value: number) => string }> = ({ label, used, limit, format = String }) => {
+  const share = limit ? Math.min(1, used / limit) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="font-medium text-slate-600">{label}</span>
+        <span className={share >= 1 ? 'font-semibold text-red-600' : 'text-slate-500'}>
+          {format(used)}{limit !== undefined ? ` / ${format(limit)}` : ''}
+        </span>
+      </div>
+      {limit !== undefined && (
+        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+            style={{ width: `${share * 100}%` }}
+          ></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PeriodCard: React.FC<{ title: string; totals: UsageTotals; limits: UsageLimits }> = ({ title, totals, limits }) => (
+  <div className="p-4 rounded-xl border border-slate-100 bg-slate-50 space-y-3">
+    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{title}</h3>
+    <Meter label="Listings" used={totals.listings} limit={limits.listings} />
+    <Meter label="AI images" used={totals.images} limit={limits.images} />
+    <Meter label="Estimated cost" used={totals.costUsd} limit={limits.costUsd} format={formatUsd} />
+    <p className="text-xs text-slate-500">
+      {formatTokens(totals.inputTokens)} tokens in · {formatTokens(totals.outputTokens)} tokens out
+    </p>
+  </div>
+);
+
+// Where the AI budget goes: quota meters, a daily chart and the cost of each listing
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [listings, setListings] = useState<SavedListing[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const load = () => {
+      const time = Date.now();
+      setNow(time);
+      getUsageSince(Math.min(startOfMonth(time), daysBefore(time, CHART_DAYS - 1)))
+        .then(setRecords)
+        .catch(err => {
+          console.error("Usage load error:", err);
+          setError('Could not load usage from this browser.');
+        });
+    };
+    load();
+    getAllListings().then(setListings).catch(err => console.error("History load error:", err));
+    return subscribeToUsage(load);
+  }, []);
+
+  const report = useMemo(() => {
+    if (!records) return null;
+    const dayStart = startOfDay(now);
+    const month = records.filter(record => record.at >= startOfMonth(now));
+
+    // Bucketed by local day, oldest first
+    const days = Array.from({ length: CHART_DAYS }, (_, i) => {
+      const start = daysBefore(now, CHART_DAYS - 1 - i);
+      const end = daysBefore(now, CHART_DAYS - 2 - i);
+      return { start, totals: totalUsage(records.filter(record => record.at >= start && record.at < end)) };
+    });
+
+    const operations = (Object.keys(OPERATION_LABELS) as UsageOperation[])
+      .map(operation => ({ operation, totals: totalUsage(month.filter(record => record.operation === operation)), calls: month.filter(record => record.operation === operation).length }))
+      .filter(row => row.calls > 0);
+
+    const byListing = new Map<string, UsageRecord[]>();
+    records.forEach(record => {
+      if (record.listingId) byListing.set(record.listingId, [...(byListing.get(record.listingId) ?? []), record]);
+    });
+    const perListing = [...byListing.entries()]
+      .map(([id, items]) => ({ id, totals: totalUsage(items), lastAt: items[items.length - 1].at }))
+      .sort((a, b) => b.lastAt - a.lastAt);
+
+    return {
+      today: totalUsage(month.filter(record => record.at >= dayStart)),
+      month: totalUsage(month),
+      days,
+      operations,
+      perListing,
+      unattributed: totalUsage(records.filter(record => !record.listingId)).costUsd,
+    };
+  }, [records, now]);
+
+  const listingNames = useMemo(() => new Map(listings.map(listing => [listing.id, listing.data.productName])), [listings]);
+  const maxDayCost = report ? Math.max(...report.days.map(day => day.totals.costUsd), 0.0001) : 1;
+  const averageListingCost = report && report.perListing.length
+    ? report.perListing.reduce((sum, row) => sum + row.totals.costUsd, 0) / report.perListing.length
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} aria-hidden="true"></div>
+      <div className="relative w-full sm:max-w-2xl bg-white rounded-t-2xl sm:rounded-2xl shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">Usage</h2>
+            <p className="text-xs text-slate-500">AI activity in this browser. Costs are estimates at list prices.</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100" aria-label="Close usage">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-6">
+          {error && <p className="bg-red-50 text-red-700 p-3 rounded-lg text-sm border border-red-100">{error}</p>}
+          {!report && !error && (
+            <div className="flex justify-center py-12 text-slate-400"><LoaderIcon className="w-6 h-6" /></div>
+          )}
+
+          {report && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <PeriodCard title="Today" totals={report.today} limits={USAGE_LIMITS.daily} />
+                <PeriodCard title="This month" totals={report.month} limits={USAGE_LIMITS.monthly} />
+              </div>
+
+              <div>
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Last {CHART_DAYS} days</h3>
+                <div className="flex items-end gap-1 h-28">
+                  {report.days.map(day => (
+                    <div
+                      key={day.start}
+                      className="flex-1 flex flex-col justify-end h-full"
+                      title={`${new Date(day.start).toLocaleDateString()}: ${day.totals.listings} listings, ${day.totals.images} images, ${formatUsd(day.totals.costUsd)}`}
+                    >
+                      <div
+                        className="bg-indigo-500 rounded-t min-h-[2px]"
+                        style={{ height: `${(day.totals.costUsd / maxDayCost) * 100}%` }}
+                      ></div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+                  <span>{new Date(report.days[0].start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                  <span>Today</span>
+                </div>
+              </div>
+
+              {report.operations.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">This month by activity</h3>
+                  <table className="w-full text-sm">
+                    <tbody className="divide-y divide-slate-100">
+                      {report.operations.map(row => (
+                        <tr key={row.operation}>
+                          <td className="py-2 text-slate-700">{OPERATION_LABELS[row.operation]}</td>
+                          <td className="py-2 text-right text-slate-500">{row.calls} calls</td>
+                          <td className="py-2 text-right text-slate-500">{formatTokens(row.totals.inputTokens + row.totals.outputTokens)} tokens</td>
+                          <td className="py-2 text-right font-medium text-slate-800">{formatUsd(row.totals.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-baseline justify-between mb-2">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Cost per listing</h3>
+                  {averageListingCost > 0 && <span className="text-xs text-slate-500">Average {formatUsd(averageListingCost)}</span>}
+                </div>
+                {report.perListing.length === 0 ? (
+                  <p className="text-sm text-slate-400">No listings generated in this period yet.</p>
+                ) : (
+                  <ul className="divide-y divide-slate-100 text-sm">
+                    {report.perListing.slice(0, 20).map(row => (
+                      <li key={row.id} className="py-2 flex items-center gap-3">
+                        <span className="flex-1 min-w-0 truncate text-slate-700">{listingNames.get(row.id) ?? 'Deleted or unsaved listing'}</span>
+                        <span className="text-xs text-slate-500">{row.totals.images} images</span>
+                        <span className="w-20 text-right font-medium text-slate-800">{formatUsd(row.totals.costUsd)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {report.unattributed > 0 && (
+                  <p className="text-xs text-slate-400 mt-2">{formatUsd(report.unattributed)} was spent outside a saved listing.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
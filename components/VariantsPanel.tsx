@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { CopyAngle, CopyVariant, ErrorInfo, GeneratedProductContent, VariantField } from '../types';
+import { ALL_ANGLES, COPY_ANGLES, CopyScore, SCORE_LABELS, ScoreCheckId, VARIANT_FIELDS, scoreCopy } from '../services/copyVariants';
+import ErrorNotice from './ErrorNotice';
+import CopyButton from './CopyButton';
+import { CheckIcon, LoaderIcon, SparklesIcon, TrashIcon } from './Icons';
+
+interface VariantsPanelProps {
+  // The listing in its main language, which is what variants are written in
+  data: GeneratedProductContent;
+  variants: CopyVariant[];
+  isGenerating: boolean;
+  error: ErrorInfo | null;
+  onGenerate: (fields: VariantField[], angles: CopyAngle[]) => void;
+  onVariantsChange: (variants: CopyVariant[]) => void;
+  onDataChange: (changes: Partial<GeneratedProductContent>) => void;
+}
+
+const scoreColor = (total: number) =>
+  total >= 75 ? 'bg-green-100 text-green-700' : total >= 50 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700';
+
+const ScoreBreakdown: React.FC<{ score: CopyScore }> = ({ score }) => {
+  const weak = (Object.keys(score.checks) as ScoreCheckId[]).filter(id => score.checks[id].score < 0.7);
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(score.checks) as ScoreCheckId[]).map(id => {
+          const check = score.checks[id];
+          return (
+            <span
+              key={id}
+              title={check.note}
+              className={`px-1.5 py-0.5 rounded text-[11px] font-medium ${check.score >= 0.7 ? 'bg-green-50 text-green-700' : check.score >= 0.4 ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-600'}`}
+            >
+              {SCORE_LABELS[id]} {Math.round(check.score * 100)}
+            </span>
+          );
+        })}
+      </div>
+      {weak.map(id => <p key={id} className="text-xs text-slate-500">{score.checks[id].note}</p>)}
+    </div>
+  );
+};
+
+// Alternative captions and descriptions to pick a winner from, or to keep several for a split test
+const VariantsPanel: React.FC<VariantsPanelProps> = ({ data, variants, isGenerating, error, onGenerate, onVariantsChange, onDataChange }) => {
+  const [field, setField] = useState<VariantField>('socialMediaPost');
+  const [angles, setAngles] = useState<CopyAngle[]>(ALL_ANGLES);
+
+  const current = data[field];
+  const currentScore = scoreCopy(current, field);
+  const scored = variants
+    .filter(variant => variant.field === field)
+    .map(variant => ({ variant, score: scoreCopy(variant.text, field) }))
+    .sort((a, b) => b.score.total - a.score.total);
+  const kept = variants.filter(variant => variant.field === field && variant.kept);
+
+  const toggleAngle = (angle: CopyAngle) => {
+    setAngles(prev => (prev.includes(angle) ? prev.filter(item => item !== angle) : ALL_ANGLES.filter(item => item === angle || prev.includes(item))));
+  };
+
+  const updateVariant = (id: string, changes: Partial<CopyVariant>) => {
+    onVariantsChange(variants.map(variant => (variant.id === id ? { ...variant, ...changes } : variant)));
+  };
+
+  const removeVariant = (id: string) => {
+    onVariantsChange(variants.filter(variant => variant.id !== id));
+  };
+
+  return (
+    <div className="mb-6 p-4 sm:p-5 bg-white rounded-xl border border-slate-200 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xs sm:text-sm font-bold text-slate-400 uppercase tracking-wider">A/B Variants</h3>
+        <div className="inline-flex p-1 bg-slate-100 rounded-lg text-xs font-semibold">
+          {(Object.keys(VARIANT_FIELDS) as VariantField[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setField(option)}
+              className={`px-3 py-1.5 rounded-md transition-all ${field === option ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {VARIANT_FIELDS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="text-slate-600">Current {VARIANT_FIELDS[field].toLowerCase()} scores</span>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${scoreColor(currentScore.total)}`}>{currentScore.total}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {ALL_ANGLES.map(angle => (
+          <button
+            key={angle}
+            onClick={() => toggleAngle(angle)}
+            title={COPY_ANGLES[angle].instruction}
+            className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${angles.includes(angle) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+          >
+            {COPY_ANGLES[angle].label}
+          </button>
+        ))}
+        <button
+          onClick={() => onGenerate([field], angles)}
+          disabled={isGenerating || angles.length === 0}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isGenerating ? <LoaderIcon className="w-3.5 h-3.5" /> : <SparklesIcon className="w-3.5 h-3.5" />}
+          Write {angles.length} variant{angles.length === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      {error && <ErrorNotice error={error} />}
+
+      {scored.length > 0 && (
+        <ul className="space-y-3">
+          {scored.map(({ variant, score }) => {
+            const isInListing = variant.text === current;
+            return (
+              <li key={variant.id} className={`p-3 rounded-lg border space-y-2 ${variant.kept ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 bg-slate-50'}`}>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-semibold text-slate-600">{COPY_ANGLES[variant.angle].label}</span>
+                  {isInListing && <span className="text-[11px] font-medium text-green-700">In listing</span>}
+                  <span className={`ml-auto px-2 py-0.5 rounded-full text-xs font-bold ${scoreColor(score.total)}`}>{score.total}</span>
+                </div>
+                <p className="text-sm text-slate-700 whitespace-pre-wrap">{variant.text}</p>
+                <ScoreBreakdown score={score} />
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => onDataChange({ [field]: variant.text })}
+                    disabled={isInListing}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40"
+                  >
+                    <CheckIcon className="w-3.5 h-3.5" /> Use in listing
+                  </button>
+                  <button
+                    onClick={() => updateVariant(variant.id, { kept: !variant.kept })}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium ${variant.kept ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    {variant.kept ? 'In split test' : 'Add to split test'}
+                  </button>
+                  <CopyButton text={variant.text} />
+                  <button
+                    onClick={() => removeVariant(variant.id)}
+                    className="ml-auto p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50"
+                    aria-label="Discard variant"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {kept.length > 0 && (
+        <div className="p-3 rounded-lg bg-indigo-50 border border-indigo-100 space-y-2">
+          <p className="text-xs font-bold text-indigo-500 uppercase tracking-wider">Split test</p>
+          <p className="text-xs text-slate-600">
+            Send each version to a different WhatsApp group, then keep the one that brings in more orders.
+          </p>
+          <ul className="space-y-1">
+            {kept.map((variant, i) => (
+              <li key={variant.id} className="flex items-center gap-2 text-sm">
+                <span className="w-6 h-6 shrink-0 rounded-full bg-white text-indigo-700 text-xs font-bold flex items-center justify-center">
+                  {String.fromCharCode(65 + i)}
+                </span>
+                <span className="flex-1 min-w-0 truncate text-slate-700">{variant.text}</span>
+                <CopyButton text={variant.text} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantsPanel;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ImageVersionTree } from '../types';
+import { canRedo, canUndo, flattenVersions, redo, selectVersion, undo } from '../services/imageVersions';
+
+interface VersionHistoryProps {
+  tree: ImageVersionTree;
+  onChange: (tree: ImageVersionTree) => void;
+  isComparing: boolean;
+  onToggleCompare: () => void;
+  canCompare: boolean;
+}
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ tree, onChange, isComparing, onToggleCompare, canCompare }) => {
+  const entries = flattenVersions(tree);
+  const numbers = new Map(entries.map(entry => [entry.version.id, entry.number]));
+  const button = 'px-2.5 py-1.5 rounded-lg text-xs font-semibold border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1.5">
+        <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide mr-auto">Versions ({entries.length})</span>
+        <button onClick={() => onChange(undo(tree))} disabled={!canUndo(tree)} className={button} title="Back to the version this one was edited from">
+          ↶ Undo
+        </button>
+        <button onClick={() => onChange(redo(tree))} disabled={!canRedo(tree)} className={button}>
+          Redo ↷
+        </button>
+        <button
+          onClick={onToggleCompare}
+          disabled={!canCompare}
+          className={`${button} ${isComparing ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : ''}`}
+        >
+          Compare
+        </button>
+      </div>
+
+      {entries.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {entries.map(({ version, number }) => {
+            const isCurrent = version.id === tree.currentId;
+            // Shows where each branch split off, e.g. "v4 ← v2"
+            const parentNumber = version.parentId ? numbers.get(version.parentId) : undefined;
+            return (
+              <button
+                key={version.id}
+                onClick={() => onChange(selectVersion(tree, version.id))}
+                title={version.prompt || 'First generated shot'}
+                className={`shrink-0 w-20 text-left rounded-lg border-2 overflow-hidden transition-all ${isCurrent ? 'border-indigo-500' : 'border-transparent hover:border-slate-300'}`}
+              >
+                <img src={version.imageUrl} alt={`Version ${number}`} className="w-full h-16 object-cover bg-slate-100" />
+                <p className="px-1 py-0.5 text-[10px] leading-tight text-slate-500 truncate">
+                  v{number}{parentNumber ? ` ← v${parentNumber}` : ''}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {tree.currentId && tree.versions[tree.currentId]?.prompt && (
+        <p className="text-xs text-slate-500 truncate">Edit: “{tree.versions[tree.currentId].prompt}”</p>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
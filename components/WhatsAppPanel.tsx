@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Branding, GeneratedProductContent } from '../types';
+import { getMarketByCurrency } from '../services/markets';
+import {
+  CloudMessageType,
+  buildClickToChatUrl,
+  buildCloudMessage,
+  buildOrderMessage,
+  buildShareCaption,
+  loadSendKey,
+  missingCloudFields,
+  saveSendKey,
+  sendCloudMessage,
+  shareImageWithCaption,
+  toWhatsAppNumber,
+} from '../services/whatsapp';
+import CopyButton from './CopyButton';
+import { LoaderIcon, PaletteIcon } from './Icons';
+
+interface WhatsAppPanelProps {
+  copy: GeneratedProductContent;
+  priceLabel: string;
+  branding: Branding;
+  // Catalog id of this listing, so chats and product messages point at the same item
+  reference: string;
+  // The branded image when there is one
+  renderImage: () => Promise<string | null>;
+  onManageBrandKits: () => void;
+}
+
+const MESSAGE_TYPES: { value: CloudMessageType; label: string }[] = [
+  { value: 'text', label: 'Caption with order link' },
+  { value: 'product', label: 'Catalog product card' },
+  { value: 'image', label: 'Hosted image with caption' },
+];
+
+const WhatsAppPanel: React.FC<WhatsAppPanelProps> = ({ copy, priceLabel, branding, reference, renderImage, onManageBrandKits }) => {
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+  const [isCloudOpen, setIsCloudOpen] = useState(false);
+  const [messageType, setMessageType] = useState<CloudMessageType>('text');
+  const [recipient, setRecipient] = useState('');
+  const [catalogId, setCatalogId] = useState('');
+  const [imageLink, setImageLink] = useState('');
+  const [sendKey, setSendKey] = useState(loadSendKey);
+  const [isSending, setIsSending] = useState(false);
+  const [sendResult, setSendResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const dialingCode = getMarketByCurrency(copy.suggestedPrice.currency)?.dialingCode ?? '';
+  const sellerNumber = toWhatsAppNumber(branding.whatsappNumber, dialingCode);
+  const orderUrl = sellerNumber
+    ? buildClickToChatUrl(sellerNumber, buildOrderMessage({ productName: copy.productName, price: priceLabel, businessName: branding.businessName, reference }))
+    : null;
+  const caption = buildShareCaption(copy.socialMediaPost, orderUrl);
+
+  const cloudFields = {
+    to: toWhatsAppNumber(recipient, dialingCode),
+    body: messageType === 'product' ? copy.shortDescription : caption,
+    imageLink: imageLink.trim(),
+    catalogId: catalogId.trim(),
+    productRetailerId: reference,
+  };
+  const missing = [...missingCloudFields(messageType, cloudFields), ...(sendKey.trim() ? [] : ['send key'])];
+  const payload = buildCloudMessage(messageType, cloudFields);
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    setShareNotice(null);
+    try {
+      const imageUrl = await renderImage();
+      if (!imageUrl) {
+        window.open(`https://wa.me/?text=${encodeURIComponent(caption)}`, '_blank', 'noopener');
+        return;
+      }
+      const result = await shareImageWithCaption(imageUrl, caption, `${reference.toLowerCase()}.png`);
+      if (result === 'fallback') setShareNotice('Your browser cannot share images directly. The image was downloaded and WhatsApp opened with the caption, so attach the image there.');
+    } catch (err) {
+      console.error("WhatsApp share error:", err);
+      setShareNotice('Could not prepare the image for sharing.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setSendResult(null);
+    try {
+      saveSendKey(sendKey.trim());
+      const id = await sendCloudMessage(payload, sendKey.trim());
+      setSendResult({ ok: true, message: `Sent. Message ID: ${id}` });
+    } catch (err: any) {
+      setSendResult({ ok: false, message: err.message || 'Could not send the message.' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 sm:p-5 bg-emerald-50 rounded-xl border border-emerald-100 space-y-4">
+      <h3 className="text-xs sm:text-sm font-bold text-emerald-600 uppercase tracking-wider">WhatsApp</h3>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-slate-600">Click-to-chat order link</p>
+        {orderUrl ? (
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={orderUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-2 text-xs border border-emerald-200 rounded-lg bg-white text-slate-600"
+            />
+            <CopyButton text={orderUrl} label="Copy Link" className="shrink-0" />
+            <a
+              href={orderUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="shrink-0 px-3 py-2 sm:py-1.5 rounded-lg text-xs font-medium bg-white border border-emerald-200 text-emerald-700 hover:bg-emerald-100 flex items-center"
+            >
+              Test
+            </a>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <span>Add your WhatsApp number to a brand kit to get an order link.</span>
+            <button
+              onClick={onManageBrandKits}
+              className="px-3 py-1.5 text-xs border border-slate-200 rounded-lg bg-white text-slate-600 hover:bg-slate-100 flex items-center gap-1.5"
+            >
+              <PaletteIcon className="w-3.5 h-3.5" /> {branding.businessName ? 'Edit Brand Kit' : 'Set Up Brand Kit'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <button
+          onClick={handleShare}
+          disabled={isSharing}
+          className="w-full flex items-center justify-center gap-2 bg-emerald-600 text-white py-2.5 rounded-lg text-sm font-semibold hover:bg-emerald-700 active:scale-95 transition-all disabled:opacity-60 disabled:cursor-wait"
+        >
+          {isSharing && <LoaderIcon className="w-4 h-4" />} Share Image + Caption to WhatsApp
+        </button>
+        {shareNotice && <p className="text-xs text-amber-700">{shareNotice}</p>}
+      </div>
+
+      <div className="p-3 rounded-lg border border-emerald-100 bg-white space-y-3">
+        <button
+          onClick={() => setIsCloudOpen(open => !open)}
+          className="w-full flex items-center justify-between text-sm font-semibold text-slate-700"
+        >
+          Send with WhatsApp Cloud API
+          <span className="text-xs font-normal text-slate-400">{isCloudOpen ? 'Hide' : 'Optional, for Business accounts'}</span>
+        </button>
+        {isCloudOpen && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <input
+                type="tel"
+                value={recipient}
+                placeholder="Customer number, e.g. 0803 123 4567"
+                onChange={(e) => setRecipient(e.target.value)}
+                className="px-3 py-2 text-sm border border-slate-200 rounded-lg"
+              />
+              <select
+                value={messageType}
+                onChange={(e) => setMessageType(e.target.value as CloudMessageType)}
+                className="px-3 py-2 text-sm border border-slate-200 rounded-lg bg-white"
+              >
+                {MESSAGE_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+              </select>
+            </div>
+            {messageType === 'product' && (
+              <input
+                type="text"
+                value={catalogId}
+                placeholder="Catalog ID from Commerce Manager"
+                onChange={(e) => setCatalogId(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg"
+              />
+            )}
+            {messageType === 'image' && (
+              <input
+                type="url"
+                value={imageLink}
+                placeholder="https://yourshop.com/photos/product.jpg"
+                onChange={(e) => setImageLink(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg"
+              />
+            )}
+
+            <input
+              type="password"
+              value={sendKey}
+              placeholder="Send key (WHATSAPP_SEND_KEY on the API server)"
+              autoComplete="off"
+              onChange={(e) => setSendKey(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg"
+            />
+
+            <div className="relative">
+              <pre className="text-[11px] leading-snug bg-slate-900 text-slate-100 p-3 rounded-lg overflow-x-auto max-h-48">{JSON.stringify(payload, null, 2)}</pre>
+              <CopyButton text={JSON.stringify(payload, null, 2)} label="Copy JSON" className="absolute top-2 right-2" />
+            </div>
+
+            {missing.length > 0 && <p className="text-xs text-slate-500">Still needed: {missing.join(', ')}.</p>}
+            <button
+              onClick={handleSend}
+              disabled={isSending || missing.length > 0}
+              className="w-full flex items-center justify-center gap-2 bg-slate-800 text-white py-2 rounded-lg text-sm font-medium hover:bg-slate-900 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSending && <LoaderIcon className="w-4 h-4" />} Send Message
+            </button>
+            {sendResult && (
+              <p className={`text-xs ${sendResult.ok ? 'text-emerald-700' : 'text-red-600'}`}>{sendResult.message}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WhatsAppPanel;
@@ -0,0 +1,73 @@
+import { MarketProfile } from "../types";
+import { CAPTION_LIMITS, LIST_LIMITS, TEXT_LIMITS } from "../services/listingSchema";
+import { EvalFixture } from "./fixtures";
+
+// Checks the schema can't express. They look at the listing as the model wrote it, before
+// normalizeToSchema trims lists and text, so a prompt that over- or under-shoots shows up.
+
+export interface ListingRule {
+  id: string;
+  // Returns what is wrong, or null when the listing passes
+  check: (listing: Record<string, any>, fixture: EvalFixture, market: MarketProfile) => string | null;
+}
+
+const inRange = (count: number, { min, max }: { min: number; max: number }) => count >= min && count <= max;
+
+export const LISTING_RULES: ListingRule[] = [
+  {
+    id: "price-currency",
+    check: ({ suggestedPrice: price }, _fixture, market) => {
+      if (price?.currency !== market.currency) return `currency is ${price?.currency}, expected ${market.currency}`;
+      if (!String(price.rationale ?? "").includes(market.currencySymbol)) return `rationale doesn't quote a price in ${market.currencySymbol}`;
+      return null;
+    },
+  },
+  {
+    id: "price-order",
+    check: ({ suggestedPrice: price }) =>
+      typeof price?.min === "number" && typeof price.max === "number" && typeof price.recommended === "number" &&
+      price.min <= price.recommended && price.recommended <= price.max
+        ? null
+        : `expected min ≤ recommended ≤ max, got ${price?.min} / ${price?.recommended} / ${price?.max}`,
+  },
+  {
+    id: "hashtag-count",
+    check: ({ hashtags }) => {
+      const count = Array.isArray(hashtags) ? hashtags.length : 0;
+      return inRange(count, LIST_LIMITS.hashtags) ? null : `${count} hashtags, expected ${LIST_LIMITS.hashtags.min}–${LIST_LIMITS.hashtags.max}`;
+    },
+  },
+  {
+    id: "hashtag-format",
+    check: ({ hashtags }) => {
+      const bad = (Array.isArray(hashtags) ? hashtags : []).filter(tag => !/^#[^\s#]+$/u.test(String(tag)));
+      return bad.length ? `malformed: ${bad.slice(0, 3).join(", ")}` : null;
+    },
+  },
+  {
+    id: "keyword-count",
+    check: ({ seoKeywords }) => {
+      const count = Array.isArray(seoKeywords) ? seoKeywords.length : 0;
+      return inRange(count, LIST_LIMITS.seoKeywords) ? null : `${count} keywords, expected ${LIST_LIMITS.seoKeywords.min}–${LIST_LIMITS.seoKeywords.max}`;
+    },
+  },
+  {
+    id: "name-length",
+    check: ({ productName }) =>
+      String(productName ?? "").length <= TEXT_LIMITS.productName ? null : `${String(productName).length} characters, limit ${TEXT_LIMITS.productName}`,
+  },
+  {
+    id: "caption-length",
+    check: ({ socialMediaPost }, { settings }) => {
+      const length = String(socialMediaPost ?? "").length;
+      const limit = CAPTION_LIMITS[settings.captionLength];
+      return length <= limit ? null : `${length} characters, limit ${limit} for a ${settings.captionLength} caption`;
+    },
+  },
+  {
+    // Marketplaces strip or penalise hashtags in listing text
+    id: "marketplace-no-hashtags",
+    check: ({ socialMediaPost }, { settings }) =>
+      settings.platform === "marketplace" && /#\w/.test(String(socialMediaPost ?? "")) ? "caption contains hashtags" : null,
+  },
+];
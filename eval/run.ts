@@ -0,0 +1,146 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { AiProvider, getAiProvider } from "../services/aiProvider";
+import { createMockProvider } from "../services/providers/mockProvider";
+import { buildListingSchema, checkAgainstSchema } from "../services/listingSchema";
+import { getMarket } from "../services/markets";
+import { LISTING_PROMPT, SYSTEM_PROMPT } from "../services/prompts";
+import { EvalFixture, LISTING_FIXTURES } from "./fixtures";
+import { LISTING_RULES } from "./rules";
+
+// Offline regression check for the listing prompt. Each fixture's prompt is rendered from the
+// current template and answered from its recording in eval/recordings. The answers are checked
+// against the schema and LISTING_RULES.
+//
+//   npm run eval          answer from the mock provider, to test the harness itself
+//   npm run eval:replay   replay recordings; a fixture without one fails
+//   npm run eval:record   ask the configured AI_PROVIDER and save its answers
+
+// Same file the API server reads, so --record uses its provider and keys
+if (existsSync(".env.local")) process.loadEnvFile(".env.local");
+
+const RECORDINGS_DIR = join("eval", "recordings", LISTING_PROMPT.id);
+
+interface Recording {
+  template: string;
+  version: number;
+  provider: string;
+  recordedAt: string;
+  systemInstruction: string;
+  prompt: string;
+  response: string;
+}
+
+type Source = "recorded" | "stale" | "missing" | "mock" | "live";
+
+interface FixtureResult {
+  fixture: EvalFixture;
+  source: Source;
+  problems: string[];
+  checks: number;
+}
+
+const args = new Set(process.argv.slice(2));
+const mode: "replay" | "mock" | "record" = args.has("--record") ? "record" : args.has("--mock") ? "mock" : "replay";
+
+const recordingPath = (fixture: EvalFixture) => join(RECORDINGS_DIR, `${fixture.id}.json`);
+
+const readRecording = async (fixture: EvalFixture): Promise<Recording | null> => {
+  const path = recordingPath(fixture);
+  return existsSync(path) ? JSON.parse(await readFile(path, "utf8")) : null;
+};
+
+const runFixture = async (fixture: EvalFixture, provider: AiProvider): Promise<FixtureResult> => {
+  const market = getMarket(fixture.marketId);
+  const schema = buildListingSchema(market, 0, fixture.settings);
+  const systemInstruction = SYSTEM_PROMPT.render({ market, language: fixture.language, settings: fixture.settings });
+  const prompt = LISTING_PROMPT.render({ market, photoCount: 0, sellerNotes: fixture.sellerNotes });
+
+  let source: Source;
+  let response: string;
+  const recording = mode === "replay" ? await readRecording(fixture) : null;
+  if (mode === "replay" && !recording) {
+    // The mock ignores the prompt, so standing in for a recording it would pass anything
+    return { fixture, source: "missing", problems: [`no recording in ${recordingPath(fixture)}`], checks: 1 + LISTING_RULES.length };
+  }
+  if (recording) {
+    // Answers to an older prompt still run, but no longer say anything about the current one
+    const isCurrent = recording.version === LISTING_PROMPT.version && recording.prompt === prompt && recording.systemInstruction === systemInstruction;
+    source = isCurrent ? "recorded" : "stale";
+    response = recording.response;
+  } else {
+    source = mode === "record" ? "live" : "mock";
+    response = await provider.generateJson({ prompt, systemInstruction, schema });
+  }
+
+  if (mode === "record") {
+    const saved: Recording = {
+      template: LISTING_PROMPT.id,
+      version: LISTING_PROMPT.version,
+      provider: provider.name,
+      recordedAt: new Date().toISOString(),
+      systemInstruction,
+      prompt,
+      response,
+    };
+    await mkdir(RECORDINGS_DIR, { recursive: true });
+    await writeFile(recordingPath(fixture), JSON.stringify(saved, null, 2) + "\n");
+  }
+
+  const { problems: schemaProblems } = checkAgainstSchema(response, schema);
+  let listing: Record<string, any> | null = null;
+  try {
+    listing = JSON.parse(response);
+  } catch {
+    // Already reported by the schema check
+  }
+  const ruleProblems = listing
+    ? LISTING_RULES.flatMap(rule => {
+        const problem = rule.check(listing!, fixture, market);
+        return problem ? [`${rule.id}: ${problem}`] : [];
+      })
+    : [];
+
+  return {
+    fixture,
+    source,
+    problems: [...schemaProblems.map(problem => `schema: ${problem}`), ...ruleProblems],
+    checks: 1 + LISTING_RULES.length,
+  };
+};
+
+const main = async () => {
+  const provider = mode === "record" ? getAiProvider() : createMockProvider();
+  console.log(`Prompt "${LISTING_PROMPT.id}" v${LISTING_PROMPT.version}: ${LISTING_FIXTURES.length} fixtures, ${mode} mode\n`);
+  if (mode === "mock") {
+    console.log("WARNING: the mock provider ignores the prompt, so this run checks the harness, not the prompt.\n");
+  }
+
+  const results: FixtureResult[] = [];
+  for (const fixture of LISTING_FIXTURES) {
+    const result = await runFixture(fixture, provider);
+    results.push(result);
+    console.log(`${result.problems.length ? "FAIL" : "pass"}  ${fixture.id} (${result.source})`);
+    result.problems.forEach(problem => console.log(`        ${problem}`));
+  }
+
+  // A failing schema check counts once, however many problems it found; a missing recording fails every check
+  const failed = results.reduce((sum, result) => {
+    if (result.source === "missing") return sum + result.checks;
+    const schemaFailed = result.problems.some(problem => problem.startsWith("schema: ")) ? 1 : 0;
+    return sum + schemaFailed + result.problems.filter(problem => !problem.startsWith("schema: ")).length;
+  }, 0);
+  const total = results.reduce((sum, result) => sum + result.checks, 0);
+  const stale = results.filter(result => result.source === "stale").length;
+  console.log(`\n${total - failed}/${total} checks passed`);
+  const missing = results.filter(result => result.source === "missing").length;
+  if (missing) console.log(`${missing} fixture${missing === 1 ? " has" : "s have"} no recording; create them with npm run eval:record`);
+  if (stale) console.log(`${stale} recording${stale === 1 ? " is" : "s are"} from an older prompt; refresh with npm run eval:record`);
+  if (failed) process.exitCode = 1;
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,10 @@
+// Only here so reminders can show on Android Chrome, which refuses `new Notification()` and
+// needs registration.showNotification(). Tapping a reminder brings the app to the front.
+self.addEventListener("notificationclick", event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then(windows =>
+      windows.length ? windows[0].focus() : self.clients.openWindow("/")
+    )
+  );
+});
@@ -0,0 +1,368 @@
+import { Schema } from "@google/genai";
+import { timingSafeEqual } from "node:crypto";
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import { AiProvider, ImageAspectRatio, ImageGenerationRequest, ImageInput, JsonGenerationRequest, ProviderUsage } from "../services/aiProvider";
+import { AiError, toAiError } from "../services/errors";
+import { estimateTokens } from "../services/usageCosts";
+import { ErrorCode } from "../types";
+import { RateLimit, createRateLimiter } from "./rateLimiter";
+import { UsageQuota, createUsageQuota } from "./usageQuota";
+
+export interface UsageEntry {
+  time: string;
+  client: string;
+  route: string;
+  status: number;
+  durationMs: number;
+  requestBytes: number;
+  responseBytes: number;
+  provider: string;
+  code?: ErrorCode;
+  // Model consumption, when the call got that far
+  usage?: ProviderUsage;
+}
+
+// Cloud API credentials; point baseUrl at a local stub to test without sending real messages
+export interface WhatsAppConfig {
+  baseUrl: string;
+  phoneNumberId: string;
+  accessToken: string;
+  // Shared secret the app sends as a bearer token; anyone holding it can message from the business number
+  sendKey: string;
+}
+
+export interface ProxyServerOptions {
+  provider: AiProvider;
+  limits: { json: RateLimit; image: RateLimit; whatsapp: RateLimit };
+  quota: UsageQuota;
+  whatsapp?: WhatsAppConfig;
+  maxBodyBytes: number;
+  // Read the client address from X-Forwarded-For when running behind a load balancer
+  trustProxy?: boolean;
+  log?: (entry: UsageEntry) => void;
+}
+
+const MAX_PROMPT_LENGTH = 20_000;
+const MAX_IMAGES = 10;
+const ASPECT_RATIOS: ImageAspectRatio[] = ["1:1", "4:5", "9:16", "16:9", "21:9"];
+
+// Clients read the error code from the body; the status is for logs and proxies
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  invalidInput: 400,
+  tooLarge: 413,
+  safety: 422,
+  quota: 429,
+  limitReached: 429,
+  cancelled: 499,
+  missingKey: 502,
+  network: 502,
+  invalidJson: 502,
+  schemaMismatch: 502,
+  unavailable: 503,
+};
+
+const writeUsage = (entry: UsageEntry) => {
+  process.stdout.write(`${JSON.stringify(entry)}\n`);
+};
+
+const clientOf = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+  return (trustProxy && first) || req.socket.remoteAddress || "unknown";
+};
+
+// Stops buffering as soon as the body passes the limit. The rest is drained unread until the
+// 413, sent with Connection: close, ends the connection.
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () => {
+      req.off("data", onData);
+      req.resume();
+      reject(new AiError("tooLarge", "The request is too large."));
+    };
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) return tooLarge();
+      chunks.push(chunk);
+    };
+
+    const declared = Number(req.headers["content-length"]);
+    if (declared > maxBytes) return tooLarge();
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseImages = (value: unknown): ImageInput[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_IMAGES) {
+    throw new AiError("invalidInput", `Send at most ${MAX_IMAGES} images.`);
+  }
+  return value.map(image => {
+    if (!isRecord(image) || typeof image.data !== "string" || typeof image.mimeType !== "string" || !image.mimeType.startsWith("image/")) {
+      throw new AiError("invalidInput", "Each image needs base64 data and an image mime type.");
+    }
+    return { data: image.data, mimeType: image.mimeType };
+  });
+};
+
+const parsePrompt = (body: Record<string, unknown>): string => {
+  if (typeof body.prompt !== "string" || !body.prompt.trim()) throw new AiError("invalidInput", "A prompt is required.");
+  if (body.prompt.length > MAX_PROMPT_LENGTH) throw new AiError("invalidInput", "The prompt is too long.");
+  return body.prompt;
+};
+
+const parseJsonRequest = (body: Record<string, unknown>): Omit<JsonGenerationRequest, "signal" | "onPartialText"> => {
+  if (!isRecord(body.schema)) throw new AiError("invalidInput", "A response schema is required.");
+  if (body.systemInstruction !== undefined && typeof body.systemInstruction !== "string") {
+    throw new AiError("invalidInput", "The system instruction must be text.");
+  }
+  return {
+    prompt: parsePrompt(body),
+    systemInstruction: typeof body.systemInstruction === "string" ? body.systemInstruction : undefined,
+    images: parseImages(body.images),
+    schema: body.schema as Schema,
+  };
+};
+
+const parseImageRequest = (body: Record<string, unknown>): Omit<ImageGenerationRequest, "signal"> => {
+  const aspectRatio = body.aspectRatio ?? "1:1";
+  if (!ASPECT_RATIOS.includes(aspectRatio as ImageAspectRatio)) throw new AiError("invalidInput", "Unsupported aspect ratio.");
+  return { prompt: parsePrompt(body), images: parseImages(body.images), aspectRatio: aspectRatio as ImageAspectRatio };
+};
+
+// Graph API errors look like { error: { message, code } }
+const whatsAppError = (status: number, detail: string): AiError => {
+  let message = "";
+  try {
+    message = JSON.parse(detail).error?.message ?? "";
+  } catch {
+    // Not JSON, e.g. a gateway page
+  }
+  const code: ErrorCode = status === 401 || status === 403 ? "missingKey" : status === 429 ? "quota" : status >= 500 ? "unavailable" : "invalidInput";
+  return new AiError(code, message || `WhatsApp returned an error (${status}).`, { cause: detail });
+};
+
+const hasSendKey = (req: IncomingMessage, sendKey: string): boolean => {
+  const given = Buffer.from(req.headers.authorization?.match(/^Bearer (.+)$/)?.[1] ?? "");
+  const expected = Buffer.from(sendKey);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const isText = (value: unknown, maxLength: number): value is string =>
+  typeof value === "string" && value.trim().length > 0 && value.length <= maxLength;
+
+// Rebuilds the message from the fields of the three kinds the app sends (buildCloudMessage in
+// services/whatsapp), so nothing else the caller adds reaches the Graph API with our token
+const toAllowedMessage = (body: Record<string, unknown>): Record<string, unknown> => {
+  if (body.messaging_product !== "whatsapp" || typeof body.to !== "string" || !/^\d{8,15}$/.test(body.to)) {
+    throw new AiError("invalidInput", "A WhatsApp message needs a recipient number in international format.");
+  }
+  const base = { messaging_product: "whatsapp", recipient_type: "individual", to: body.to };
+  const text = isRecord(body.text) ? body.text : {};
+  const image = isRecord(body.image) ? body.image : {};
+  const interactive = isRecord(body.interactive) ? body.interactive : {};
+  const action = isRecord(interactive.action) ? interactive.action : {};
+  const interactiveBody = isRecord(interactive.body) ? interactive.body : {};
+
+  if (body.type === "text" && isText(text.body, 4096)) {
+    return { ...base, type: "text", text: { preview_url: text.preview_url === true, body: text.body } };
+  }
+  if (body.type === "image" && typeof image.link === "string" && /^https:\/\//.test(image.link)) {
+    return { ...base, type: "image", image: { link: image.link, ...(isText(image.caption, 1024) ? { caption: image.caption } : {}) } };
+  }
+  if (body.type === "interactive" && interactive.type === "product" && isText(interactiveBody.text, 1024) &&
+    isText(action.catalog_id, 100) && isText(action.product_retailer_id, 100)) {
+    return {
+      ...base,
+      type: "interactive",
+      interactive: {
+        type: "product",
+        body: { text: interactiveBody.text },
+        action: { catalog_id: action.catalog_id, product_retailer_id: action.product_retailer_id },
+      },
+    };
+  }
+  throw new AiError("invalidInput", "Only text, image and catalog product messages can be sent.");
+};
+
+// Adds the token to an allowed message; WhatsApp validates the rest itself
+const sendToWhatsApp = async (config: WhatsAppConfig, body: Record<string, unknown>, signal: AbortSignal): Promise<unknown> => {
+
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/${config.phoneNumberId}/messages`, {
+    method: "POST",
+    signal,
+    headers: { Authorization: `Bearer ${config.accessToken}`, "Content-Type": "application/json" },
+    body: JSON.stringify(toAllowedMessage(body)),
+  });
+  const detail = await response.text();
+  if (!response.ok) throw whatsAppError(response.status, detail);
+  return JSON.parse(detail);
+};
+
+const errorBody = (error: AiError) => ({ error: { code: error.code, message: error.message, retryAfterMs: error.retryAfterMs } });
+
+// Holds the provider keys server-side; the browser only ever talks to these routes
+export const createProxyServer = (options: ProxyServerOptions): Server => {
+  const { provider, maxBodyBytes, trustProxy = false, log = writeUsage } = options;
+  const limiters = {
+    json: createRateLimiter(options.limits.json),
+    image: createRateLimiter(options.limits.image),
+    whatsapp: createRateLimiter(options.limits.whatsapp),
+  };
+  const quota = createUsageQuota(options.quota);
+
+  const handle = async (req: IncomingMessage, res: ServerResponse, usage: UsageEntry) => {
+    const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      const payload = JSON.stringify(body);
+      usage.status = status;
+      usage.responseBytes = Buffer.byteLength(payload);
+      res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(payload);
+    };
+    const fail = (error: AiError) => {
+      usage.code = error.code;
+      const headers: Record<string, string> = error.retryAfterMs ? { "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) } : {};
+      send(STATUS_BY_CODE[error.code] ?? 500, errorBody(error), headers);
+    };
+
+    if (req.method === "GET" && usage.route === "/api/health") return send(200, { ok: true, provider: provider.name });
+
+    const kind = ({ "/api/generate-json": "json", "/api/generate-image": "image", "/api/whatsapp/messages": "whatsapp" } as const)[usage.route] ?? null;
+    if (!kind) return send(404, { error: { code: "unknown", message: "Not found." } });
+    if (req.method !== "POST") return send(405, { error: { code: "unknown", message: "Use POST." } }, { Allow: "POST" });
+
+    const limit = limiters[kind].take(usage.client);
+    if (!limit.allowed) {
+      return fail(new AiError("quota", "Too many requests. Please slow down.", { retryAfterMs: limit.retryAfterMs }));
+    }
+    if (kind === "whatsapp") {
+      if (!options.whatsapp) return fail(new AiError("missingKey", "WhatsApp Cloud API is not configured on the server."));
+      if (!hasSendKey(req, options.whatsapp.sendKey)) {
+        usage.code = "missingKey";
+        return send(401, errorBody(new AiError("missingKey", "Enter the server's WhatsApp send key to send messages.")), { Connection: "close" });
+      }
+    }
+
+    // Closing the tab or pressing Cancel stops the upstream call too
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    let streaming = false;
+    // Passed back to the browser so it can meter and cost each call
+    const onUsage = (consumed: ProviderUsage) => {
+      usage.usage = consumed;
+      quota.addCost(consumed);
+    };
+    // Set once the call is counted against the quota
+    let admittedPrompt: string | null = null;
+    const admit = (prompt: string) => {
+      const refused = quota.reserve(usage.client, kind === "image" ? "image" : "json");
+      if (refused) throw refused;
+      admittedPrompt = prompt;
+    };
+    try {
+      const raw = await readBody(req, maxBodyBytes).catch(error => {
+        // Oversized bodies close the connection, since the rest of the upload is never read
+        if (error instanceof AiError) {
+          usage.code = error.code;
+          send(413, errorBody(error), { Connection: "close" });
+          return null;
+        }
+        throw error;
+      });
+      if (!raw) return;
+      usage.requestBytes = raw.length;
+
+      let body: unknown;
+      try {
+        body = JSON.parse(raw.toString("utf8"));
+      } catch {
+        throw new AiError("invalidInput", "The request body must be JSON.");
+      }
+      if (!isRecord(body)) throw new AiError("invalidInput", "The request body must be a JSON object.");
+
+      if (kind === "whatsapp") return send(200, await sendToWhatsApp(options.whatsapp!, body, controller.signal));
+
+      if (kind === "image") {
+        const request = parseImageRequest(body);
+        admit(request.prompt);
+        const imageUrl = await provider.generateImage({ ...request, signal: controller.signal, onUsage });
+        return send(200, { imageUrl, usage: usage.usage });
+      }
+
+      const request = parseJsonRequest(body);
+      admit(request.prompt);
+      if (body.stream !== true) {
+        const text = await provider.generateJson({ ...request, signal: controller.signal, onUsage });
+        return send(200, { text, usage: usage.usage });
+      }
+
+      // Newline-delimited JSON: text deltas as they arrive, then a final line
+      let sent = 0;
+      const write = (line: unknown) => {
+        const payload = `${JSON.stringify(line)}\n`;
+        usage.responseBytes += Buffer.byteLength(payload);
+        res.write(payload);
+      };
+      const text = await provider.generateJson({
+        ...request,
+        signal: controller.signal,
+        onUsage,
+        onPartialText: partial => {
+          if (!streaming) {
+            streaming = true;
+            usage.status = 200;
+            res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" });
+          }
+          if (partial.length > sent) write({ delta: partial.slice(sent) });
+          sent = partial.length;
+        },
+      });
+      if (!streaming) return send(200, { text, usage: usage.usage });
+      if (text.length > sent) write({ delta: text.slice(sent) });
+      write({ done: true, usage: usage.usage });
+      res.end();
+    } catch (raw) {
+      // A call that failed or was aborted midway may still be billed without reporting usage
+      if (admittedPrompt !== null && !usage.usage) {
+        quota.addCost({ model: "unknown", inputTokens: estimateTokens(admittedPrompt), outputTokens: 0, images: 0 });
+      }
+      const error = toAiError(raw, "The AI request failed.");
+      if (!streaming) return fail(error);
+      // Headers are already sent, so the failure travels as the last line
+      usage.code = error.code;
+      res.end(`${JSON.stringify(errorBody(error))}\n`);
+    }
+  };
+
+  return createServer((req, res) => {
+    const started = Date.now();
+    const usage: UsageEntry = {
+      time: new Date(started).toISOString(),
+      client: clientOf(req, trustProxy),
+      route: (req.url ?? "/").split("?")[0],
+      status: 0,
+      durationMs: 0,
+      requestBytes: 0,
+      responseBytes: 0,
+      provider: provider.name,
+    };
+    res.on("close", () => {
+      usage.durationMs = Date.now() - started;
+      if (!res.writableFinished && !usage.code) usage.code = "cancelled";
+      log(usage);
+    });
+    handle(req, res, usage).catch(error => {
+      console.error("Proxy error:", error);
+      if (!res.headersSent) res.writeHead(500, { "Content-Type": "application/json" });
+      res.end();
+    });
+  });
+};
@@ -0,0 +1,51 @@
+import { existsSync } from "node:fs";
+import { getAiProvider } from "../services/aiProvider";
+import { createProxyServer } from "./app";
+
+// Same file the Vite dev server reads, so one .env.local configures both
+if (existsSync(".env.local")) process.loadEnvFile(".env.local");
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+if ((process.env.AI_PROVIDER || "").trim().toLowerCase() === "proxy") {
+  throw new Error('AI_PROVIDER cannot be "proxy" on the server. Use gemini, openai or mock.');
+}
+
+// Without a send key anyone who can reach the server could message from the business number
+if (process.env.WHATSAPP_ACCESS_TOKEN && !process.env.WHATSAPP_SEND_KEY) {
+  console.warn("WhatsApp sending is off: set WHATSAPP_SEND_KEY to a long random secret to turn it on.");
+}
+
+const port = numberFromEnv("PORT", 8787);
+const server = createProxyServer({
+  provider: getAiProvider(),
+  limits: {
+    json: { perMinute: numberFromEnv("RATE_LIMIT_JSON_PER_MINUTE", 20), burst: numberFromEnv("RATE_LIMIT_JSON_BURST", 10) },
+    image: { perMinute: numberFromEnv("RATE_LIMIT_IMAGE_PER_MINUTE", 6), burst: numberFromEnv("RATE_LIMIT_IMAGE_BURST", 3) },
+    whatsapp: { perMinute: numberFromEnv("RATE_LIMIT_WHATSAPP_PER_MINUTE", 6), burst: numberFromEnv("RATE_LIMIT_WHATSAPP_BURST", 3) },
+  },
+  // Above the app's own limits, since a listing takes several text requests with repairs and rewrites
+  quota: {
+    daily: { requests: numberFromEnv("QUOTA_DAILY_REQUESTS", 300), images: numberFromEnv("QUOTA_DAILY_IMAGES", 30) },
+    monthly: { requests: numberFromEnv("QUOTA_MONTHLY_REQUESTS", 3000), images: numberFromEnv("QUOTA_MONTHLY_IMAGES", 300) },
+    monthlyCostUsd: numberFromEnv("QUOTA_MONTHLY_USD", 100),
+  },
+  // Eight preprocessed photos, base64 encoded, fit comfortably
+  maxBodyBytes: numberFromEnv("MAX_BODY_MB", 12) * 1024 * 1024,
+  whatsapp: process.env.WHATSAPP_ACCESS_TOKEN && process.env.WHATSAPP_PHONE_NUMBER_ID && process.env.WHATSAPP_SEND_KEY
+    ? {
+        baseUrl: process.env.WHATSAPP_API_BASE_URL || "https://graph.facebook.com/v21.0",
+        phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+        accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+        sendKey: process.env.WHATSAPP_SEND_KEY,
+      }
+    : undefined,
+  trustProxy: process.env.TRUST_PROXY === "true",
+});
+
+server.listen(port, () => {
+  console.log(`Merchant AI API listening on http://localhost:${port} (provider: ${getAiProvider().name})`);
+});
@@ -0,0 +1,53 @@
+// Token bucket per client: a full bucket allows a short burst, then requests refill at a steady rate
+export interface RateLimit {
+  perMinute: number;
+  burst: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Idle buckets are full again after this long, so they can be dropped
+const PRUNE_INTERVAL_MS = 60_000;
+
+export const createRateLimiter = (limit: RateLimit, now: () => number = Date.now) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = limit.perMinute / 60_000;
+  let lastPrune = now();
+
+  const prune = (time: number) => {
+    if (time - lastPrune < PRUNE_INTERVAL_MS) return;
+    lastPrune = time;
+    const fullAfterMs = limit.burst / refillPerMs;
+    buckets.forEach((bucket, key) => {
+      if (time - bucket.updatedAt > fullAfterMs) buckets.delete(key);
+    });
+  };
+
+  return {
+    take: (key: string): RateLimitResult => {
+      const time = now();
+      prune(time);
+
+      const bucket = buckets.get(key) ?? { tokens: limit.burst, updatedAt: time };
+      bucket.tokens = Math.min(limit.burst, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = time;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
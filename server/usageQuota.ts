@@ -0,0 +1,75 @@
+import { ProviderUsage } from "../services/aiProvider";
+import { AiError } from "../services/errors";
+import { estimateCostUsd, formatUsd } from "../services/usageCosts";
+
+// Daily and monthly caps that hold whatever the browser's own usage store says. Counts are per
+// client; the budget is shared, since every client spends the same keys. Periods follow UTC and
+// the counters live in memory, so a restart starts them again from zero.
+export interface UsageQuota {
+  daily: { requests: number; images: number };
+  monthly: { requests: number; images: number };
+  monthlyCostUsd: number;
+}
+
+export type QuotaKind = "json" | "image";
+
+interface Counts {
+  requests: number;
+  images: number;
+}
+
+export const createUsageQuota = (quota: UsageQuota, now: () => number = Date.now) => {
+  let day = "";
+  let month = "";
+  let daily = new Map<string, Counts>();
+  let monthly = new Map<string, Counts>();
+  let costUsd = 0;
+
+  // Dropping last period's counters also keeps the maps from growing without bound
+  const roll = () => {
+    const date = new Date(now()).toISOString();
+    if (date.slice(0, 10) !== day) {
+      day = date.slice(0, 10);
+      daily = new Map();
+    }
+    if (date.slice(0, 7) !== month) {
+      month = date.slice(0, 7);
+      monthly = new Map();
+      costUsd = 0;
+    }
+  };
+
+  const countsFor = (counters: Map<string, Counts>, client: string): Counts => {
+    const counts = counters.get(client) ?? { requests: 0, images: 0 };
+    counters.set(client, counts);
+    return counts;
+  };
+
+  return {
+    // Counts the call before it is made, so calls that fail or are cancelled still count.
+    // Null when the call is allowed.
+    reserve: (client: string, kind: QuotaKind): AiError | null => {
+      roll();
+      if (costUsd >= quota.monthlyCostUsd) {
+        return new AiError("limitReached", `This server's AI budget of ${formatUsd(quota.monthlyCostUsd)} for the month is used up. It resets on the 1st.`);
+      }
+      const field = kind === "image" ? "images" : "requests";
+      const noun = kind === "image" ? "AI images" : "AI requests";
+      const today = countsFor(daily, client);
+      const thisMonth = countsFor(monthly, client);
+      if (today[field] >= quota.daily[field]) {
+        return new AiError("limitReached", `You've made ${quota.daily[field]} ${noun} today, the server's daily limit. It resets at midnight UTC.`);
+      }
+      if (thisMonth[field] >= quota.monthly[field]) {
+        return new AiError("limitReached", `You've made ${quota.monthly[field]} ${noun} this month, the server's monthly limit. It resets on the 1st.`);
+      }
+      today[field] += 1;
+      thisMonth[field] += 1;
+      return null;
+    },
+    addCost: (usage: ProviderUsage) => {
+      roll();
+      costUsd += estimateCostUsd(usage);
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { ServerResponse, createServer } from "node:http";
+
+// Stand-in for the Graph API's POST /{version}/{phone-number-id}/messages, so the Cloud API
+// flow can be tried end to end without a Meta app. Run the API server with
+// WHATSAPP_API_BASE_URL=http://localhost:8788/v21.0 and any token and phone number id.
+
+const port = Number(process.env.WHATSAPP_STUB_PORT) || 8788;
+let sent = 0;
+
+const reply = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+};
+
+// Same shape as real Graph API errors
+const graphError = (message: string, code: number) => ({ error: { message, type: "OAuthException", code } });
+
+createServer((req, res) => {
+  const match = req.url?.match(/^\/v[\d.]+\/([^/]+)\/messages$/);
+  if (req.method !== "POST" || !match) return reply(res, 404, graphError("Unknown path.", 100));
+  if (!/^Bearer \S+/.test(req.headers.authorization ?? "")) return reply(res, 401, graphError("Invalid OAuth access token.", 190));
+
+  let raw = "";
+  req.on("data", chunk => (raw += chunk));
+  req.on("end", () => {
+    let message: Record<string, any>;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return reply(res, 400, graphError("Request body is not JSON.", 100));
+    }
+
+    const problems = [
+      message.messaging_product !== "whatsapp" && "messaging_product must be whatsapp",
+      !/^\d{8,15}$/.test(message.to ?? "") && "to must be a phone number in international format",
+      message.type === "text" && !message.text?.body && "text.body is required",
+      message.type === "image" && !message.image?.link && "image.link is required",
+      message.type === "interactive" && !message.interactive?.action?.product_retailer_id && "interactive.action.product_retailer_id is required",
+      !["text", "image", "interactive"].includes(message.type) && `unsupported type ${message.type}`,
+    ].filter(Boolean);
+    if (problems.length) return reply(res, 400, graphError(`(#100) Invalid parameter: ${problems.join("; ")}`, 100));
+
+    sent += 1;
+    const id = `wamid.stub${String(sent).padStart(6, "0")}`;
+    console.log(JSON.stringify({ time: new Date().toISOString(), phoneNumberId: match[1], id, message }));
+    reply(res, 200, { messaging_product: "whatsapp", contacts: [{ input: message.to, wa_id: message.to }], messages: [{ id }] });
+  });
+}).listen(port, () => {
+  console.log(`WhatsApp Cloud API stub listening on http://localhost:${port}`);
+});
@@ -0,0 +1,86 @@
+import { Schema } from "@google/genai";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAiProvider } from "./providers/openaiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { createProxyProvider } from "./providers/proxyProvider";
+
+// Base64 image payload shared by every provider (no data: prefix)
+export interface ImageInput {
+  data: string;
+  mimeType: string;
+}
+
+// What one provider call consumed, for metering and cost estimates
+export interface ProviderUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+}
+
+export interface JsonGenerationRequest {
+  prompt: string;
+  systemInstruction?: string;
+  images?: ImageInput[];
+  // Schemas are written with the Gemini `Type` enum; other providers translate them
+  schema: Schema;
+  signal?: AbortSignal;
+  // When set, providers that can stream report the text received so far
+  onPartialText?: (text: string) => void;
+  // Called once the call succeeds
+  onUsage?: (usage: ProviderUsage) => void;
+}
+
+// Ratios every provider can produce, natively or by picking the closest size
+export type ImageAspectRatio = "1:1" | "4:5" | "9:16" | "16:9" | "21:9";
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  images?: ImageInput[];
+  // Defaults to square
+  aspectRatio?: ImageAspectRatio;
+  signal?: AbortSignal;
+  onUsage?: (usage: ProviderUsage) => void;
+}
+
+// Providers throw AiError (services/errors) for failures they can classify themselves
+export interface AiProvider {
+  readonly name: ProviderName;
+  // Resolves to the raw JSON text produced by the model
+  generateJson: (request: JsonGenerationRequest) => Promise<string>;
+  // Resolves to a data URL of the generated image
+  generateImage: (request: ImageGenerationRequest) => Promise<string>;
+}
+
+// "proxy" is the browser's view of the API server, which then uses one of the others
+export type ProviderName = "gemini" | "openai" | "mock" | "proxy";
+
+const PROVIDER_FACTORIES: Record<ProviderName, () => AiProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAiProvider,
+  mock: createMockProvider,
+  proxy: createProxyProvider,
+};
+
+const isProviderName = (value: string): value is ProviderName =>
+  Object.prototype.hasOwnProperty.call(PROVIDER_FACTORIES, value);
+
+let activeProvider: AiProvider | null = null;
+
+// Picks the provider from the AI_PROVIDER env variable (defaults to Gemini); the browser build sets it to "proxy"
+export const getAiProvider = (): AiProvider => {
+  if (activeProvider) return activeProvider;
+
+  const configured = (process.env.AI_PROVIDER || "gemini").trim().toLowerCase();
+  if (!isProviderName(configured)) {
+    throw new Error(`Unknown AI provider "${configured}". Use one of: ${Object.keys(PROVIDER_FACTORIES).join(", ")}.`);
+  }
+
+  activeProvider = PROVIDER_FACTORIES[configured]();
+  return activeProvider;
+};
+
+// Swaps the provider at runtime, e.g. to force the mock for an offline demo
+export const setAiProvider = (provider: AiProvider | null) => {
+  activeProvider = provider;
+};
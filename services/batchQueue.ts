@@ -0,0 +1,23 @@
+// Runs `worker` over every item with at most `concurrency` calls in flight.
+// Worker failures are the worker's responsibility to record; they never stop the queue.
+export const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        console.error("Batch worker error:", error);
+      }
+    }
+  };
+
+  const laneCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: laneCount }, lane));
+};
@@ -0,0 +1,65 @@
+import { BrandKit, Branding } from "../types";
+import { BRAND_KITS_STORE, createId, runRequest } from "./db";
+
+const ACTIVE_KIT_KEY = "merchant-ai:brand-kit";
+
+// Fonts loaded in index.html, so the canvas can draw with them too
+export const BRAND_FONTS = ["Inter", "Poppins", "Montserrat", "Playfair Display", "Georgia"];
+
+export const TONE_SUGGESTIONS = ["Warm and friendly", "Playful and fun", "Premium and elegant", "Bold and urgent", "Calm and trustworthy"];
+
+export const DEFAULT_BRANDING: Branding = {
+  businessName: "",
+  logoUrl: null,
+  primaryColor: "#4f46e5",
+  accentColor: "#ffffff",
+  headingFont: "Inter",
+  bodyFont: "Inter",
+  whatsappNumber: "",
+  tagline: "",
+  defaultTone: "",
+};
+
+export const createBrandKit = (fields: Partial<Branding> = {}): BrandKit => ({
+  ...DEFAULT_BRANDING,
+  ...fields,
+  id: createId(),
+  updatedAt: Date.now(),
+});
+
+// Strips the kit's bookkeeping so it can be stored on a listing
+export const toBranding = ({ id, updatedAt, ...branding }: BrandKit): Branding => branding;
+
+export const getAllBrandKits = async (): Promise<BrandKit[]> => {
+  const kits = await runRequest<BrandKit[]>(BRAND_KITS_STORE, "readonly", store => store.getAll());
+  return kits
+    .map(kit => ({ ...DEFAULT_BRANDING, ...kit }))
+    .sort((a, b) => a.businessName.localeCompare(b.businessName));
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<BrandKit> => {
+  const saved = { ...kit, updatedAt: Date.now() };
+  await runRequest(BRAND_KITS_STORE, "readwrite", store => store.put(saved));
+  return saved;
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  await runRequest(BRAND_KITS_STORE, "readwrite", store => store.delete(id));
+};
+
+export const loadActiveBrandKitId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KIT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveBrandKitId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_KIT_KEY, id);
+    else localStorage.removeItem(ACTIVE_KIT_KEY);
+  } catch {
+    // Private browsing can block storage; the choice just won't persist
+  }
+};
@@ -0,0 +1,219 @@
+import { ScheduledPost, SocialChannel } from "../types";
+import { ImageAspectRatio } from "./aiProvider";
+import { SCHEDULE_STORE, createId, runRequest } from "./db";
+import { downloadCsv } from "./csv";
+import { downloadBlob } from "./download";
+
+export interface ChannelProfile {
+  label: string;
+  // Characters; the caption is written to fit and the editor counts against it
+  captionLimit: number;
+  aspectRatio: ImageAspectRatio;
+  // Passed to the model when it writes a caption for this channel
+  guidance: string;
+}
+
+export const CHANNELS: Record<SocialChannel, ChannelProfile> = {
+  instagram: {
+    label: "Instagram",
+    captionLimit: 2200,
+    aspectRatio: "4:5",
+    guidance: "Hook the reader in the first line, before Instagram cuts the caption off. Use short lines and emojis, then end with 8 to 12 hashtags on their own line.",
+  },
+  facebook: {
+    label: "Facebook",
+    captionLimit: 1500,
+    aspectRatio: "1:1",
+    guidance: "Write one or two short conversational paragraphs that end with a clear call to action or a question for the comments. Use at most 3 hashtags.",
+  },
+  tiktok: {
+    label: "TikTok",
+    captionLimit: 2200,
+    aspectRatio: "9:16",
+    guidance: "Keep it under 150 characters: one punchy hook that makes people watch, then 3 to 5 hashtags.",
+  },
+  whatsappStatus: {
+    label: "WhatsApp Status",
+    captionLimit: 700,
+    aspectRatio: "9:16",
+    guidance: "Sound personal, like a message to friends and regular customers. Keep it to two or three lines, no hashtags, and end by asking people to reply to the status to order.",
+  },
+};
+
+// Offered in the editor; minutes before the post
+export const REMINDER_OPTIONS: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: "No reminder" },
+  { minutes: 0, label: "At posting time" },
+  { minutes: 15, label: "15 minutes before" },
+  { minutes: 60, label: "1 hour before" },
+  { minutes: 24 * 60, label: "1 day before" },
+];
+
+// Weeks start on Monday, at local midnight
+export const startOfWeek = (time: number): number => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7)).getTime();
+};
+
+// Calendar days rather than 24-hour steps, so daylight saving changes don't shift the grid
+export const addDays = (time: number, days: number): number => {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export const createScheduledPost = (
+  fields: Pick<ScheduledPost, "listingId" | "channel" | "scheduledAt" | "caption" | "imageUrl" | "reminderMinutes">
+): ScheduledPost => {
+  const now = Date.now();
+  return { ...fields, id: createId(), remindedAt: null, posted: false, createdAt: now, updatedAt: now };
+};
+
+const listeners = new Set<() => void>();
+
+// Lets the open calendar and the reminder checker pick up changes made elsewhere
+export const subscribeToSchedule = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const saveScheduledPost = async (post: ScheduledPost): Promise<ScheduledPost> => {
+  const saved = { ...post, updatedAt: Date.now() };
+  await runRequest(SCHEDULE_STORE, "readwrite", store => store.put(saved));
+  listeners.forEach(listener => listener());
+  return saved;
+};
+
+export const deleteScheduledPost = async (id: string): Promise<void> => {
+  await runRequest(SCHEDULE_STORE, "readwrite", store => store.delete(id));
+  listeners.forEach(listener => listener());
+};
+
+// Posts from `from` up to (not including) `to`, earliest first
+export const getScheduledPosts = (from: number, to: number): Promise<ScheduledPost[]> =>
+  runRequest<ScheduledPost[]>(SCHEDULE_STORE, "readonly", store =>
+    store.index("scheduledAt").getAll(IDBKeyRange.bound(from, to, false, true))
+  );
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Local date and time for <input type="date"> / <input type="time"> and the CSV
+export const toDateInput = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const toTimeInput = (time: number): string => {
+  const date = new Date(time);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeInputs = (date: string, time: string): number => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes).getTime();
+};
+
+// --- ICS (RFC 5545) ---
+
+const toIcsTime = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const escapeIcsText = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const encoder = new TextEncoder();
+
+// Content lines are folded at 75 octets, never splitting a multi-byte character or emoji
+const foldIcsLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75
+    if (size + bytes > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+// Posts take 15 minutes in the seller's calendar app
+const POST_DURATION = "PT15M";
+
+export const buildIcs = (posts: ScheduledPost[], productNames: Map<string, string>, now: number = Date.now()): string => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//MerchantAI//Content Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:MerchantAI posts",
+  ];
+
+  posts.forEach(post => {
+    const channel = CHANNELS[post.channel].label;
+    const summary = `${channel}: ${productNames.get(post.listingId) ?? "Product post"}`;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${post.id}@merchant-ai`,
+      `DTSTAMP:${toIcsTime(now)}`,
+      `DTSTART:${toIcsTime(post.scheduledAt)}`,
+      `DURATION:${POST_DURATION}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      `DESCRIPTION:${escapeIcsText(post.caption)}`,
+      `CATEGORIES:${escapeIcsText(channel)}`,
+      `STATUS:${post.posted ? "CONFIRMED" : "TENTATIVE"}`,
+    );
+    if (post.reminderMinutes !== null) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeIcsText(`Post on ${summary}`)}`,
+        `TRIGGER:-PT${post.reminderMinutes}M`,
+        "END:VALARM",
+      );
+    }
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+};
+
+export const downloadIcs = (fileName: string, posts: ScheduledPost[], productNames: Map<string, string>) => {
+  downloadBlob(fileName, new Blob([buildIcs(posts, productNames)], { type: "text/calendar;charset=utf-8" }));
+};
+
+// --- CSV ---
+
+const reminderLabel = (minutes: number | null): string =>
+  REMINDER_OPTIONS.find(option => option.minutes === minutes)?.label ?? `${minutes} minutes before`;
+
+export const calendarCsvRows = (posts: ScheduledPost[], productNames: Map<string, string>): string[][] => [
+  ["Date", "Time", "Channel", "Product", "Caption", "Has Image", "Reminder", "Status"],
+  ...posts.map(post => [
+    toDateInput(post.scheduledAt),
+    toTimeInput(post.scheduledAt),
+    CHANNELS[post.channel].label,
+    productNames.get(post.listingId) ?? "",
+    post.caption,
+    post.imageUrl ? "Yes" : "No",
+    reminderLabel(post.reminderMinutes),
+    post.posted ? "Posted" : "Planned",
+  ]),
+];
+
+export const downloadCalendarCsv = (fileName: string, posts: ScheduledPost[], productNames: Map<string, string>) => {
+  downloadCsv(fileName, calendarCsvRows(posts, productNames));
+};
@@ -0,0 +1,142 @@
+import { CopyAngle, CopyVariant, VariantField } from "../types";
+import { createId } from "./db";
+
+export const COPY_ANGLES: Record<CopyAngle, { label: string; instruction: string }> = {
+  urgency: {
+    label: "Urgency",
+    instruction: "Give a reason to order today, such as limited stock or a deadline, without inventing facts about the product.",
+  },
+  benefit: {
+    label: "Benefit-led",
+    instruction: "Lead with the biggest benefit to the buyer and how it makes their day better.",
+  },
+  socialProof: {
+    label: "Social proof",
+    instruction: "Lean on how popular the product is and what buyers like about it. Don't invent numbers, names or reviews.",
+  },
+  price: {
+    label: "Price-led",
+    instruction: "Lead with the price and the value for money, quoting the recommended price.",
+  },
+};
+
+export const ALL_ANGLES = Object.keys(COPY_ANGLES) as CopyAngle[];
+
+export const VARIANT_FIELDS: Record<VariantField, string> = {
+  socialMediaPost: "Social Media Caption",
+  shortDescription: "Short Description",
+};
+
+export const createCopyVariant = (field: VariantField, angle: CopyAngle, text: string): CopyVariant => ({
+  id: createId(),
+  field,
+  angle,
+  text,
+  kept: false,
+  createdAt: Date.now(),
+});
+
+// --- Scoring ---
+// Quick heuristics for comparing variants before they are tried on real customers. They read
+// English best; hooks and calls to action in other languages can score lower than they deserve.
+
+export type ScoreCheckId = "length" | "hook" | "emoji" | "cta";
+
+export interface ScoreCheck {
+  // 0 to 1
+  score: number;
+  note: string;
+}
+
+export interface CopyScore {
+  // 0 to 100
+  total: number;
+  checks: Record<ScoreCheckId, ScoreCheck>;
+}
+
+export const SCORE_LABELS: Record<ScoreCheckId, string> = {
+  length: "Length",
+  hook: "Hook",
+  emoji: "Emoji",
+  cta: "Call to action",
+};
+
+const SCORE_WEIGHTS: Record<ScoreCheckId, number> = { length: 25, hook: 30, emoji: 15, cta: 30 };
+
+// Characters that read in full in a WhatsApp group or feed, before "Read more"
+const IDEAL_LENGTH: Record<VariantField, [number, number]> = {
+  socialMediaPost: [80, 300],
+  shortDescription: [120, 320],
+};
+
+// Emojis per 100 characters
+const IDEAL_EMOJI_DENSITY: Record<VariantField, [number, number]> = {
+  socialMediaPost: [0.7, 3],
+  shortDescription: [0, 1],
+};
+
+const HOOK_WORDS = /^(new|just|finally|limited|only|last|stop|imagine|looking|need|tired|don'?t|who|why|what|how|sale|free|hot|attention|oya|nouveau)\b/i;
+const CTA_PATTERN = /\b(order|dm|message|whatsapp|call|buy|shop|tap|click|reply|send|grab|get yours|book|visit|link in bio|comment|chat|oya|commande[rz]?|achete[rz])\b/i;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const STARTS_WITH_EMOJI = /^\p{Extended_Pictographic}/u;
+
+// 1 inside the range, falling off in proportion to how far outside it the value is
+const rangeScore = (value: number, [min, max]: [number, number]): number => {
+  if (value < min) return min === 0 ? 1 : value / min;
+  if (value > max) return Math.max(0, 1 - (value - max) / Math.max(max, 1));
+  return 1;
+};
+
+const scoreLength = (text: string, field: VariantField): ScoreCheck => {
+  const range = IDEAL_LENGTH[field];
+  const score = rangeScore(text.length, range);
+  if (text.length < range[0]) return { score, note: `Short at ${text.length} characters; ${range[0]}–${range[1]} gives room to sell.` };
+  if (text.length > range[1]) return { score, note: `Long at ${text.length} characters; most readers stop before the end.` };
+  return { score, note: `${text.length} characters, easy to read in full.` };
+};
+
+// The opening line is what shows in notifications and before "Read more"
+const scoreHook = (text: string): ScoreCheck => {
+  const firstLine = text.trim().split(/\n/)[0];
+  const opener = firstLine.match(/^.*?[.!?](\s|$)/)?.[0].trim() ?? firstLine;
+  const signals = [
+    STARTS_WITH_EMOJI.test(opener),
+    opener.endsWith("?"),
+    opener.endsWith("!"),
+    /\d/.test(opener),
+    HOOK_WORDS.test(opener.replace(EMOJI_PATTERN, "").trim()),
+  ].filter(Boolean).length;
+
+  const brevity = opener.length <= 70 ? 0.4 : opener.length <= 120 ? 0.2 : 0;
+  const score = Math.min(1, brevity + Math.min(signals, 2) * 0.3);
+  if (opener.length > 120) return { score, note: "The opening runs long; lead with one short line." };
+  if (signals === 0) return { score, note: "Open with a question, a number or a bold claim." };
+  if (score >= 0.9) return { score, note: "Strong, short opener." };
+  return { score, note: brevity < 0.4 ? "Good opener; a shorter first line would land faster." : "Decent opener; a question or number would make it punchier." };
+};
+
+const scoreEmoji = (text: string, field: VariantField): ScoreCheck => {
+  const count = text.match(EMOJI_PATTERN)?.length ?? 0;
+  const density = text.length ? (count / text.length) * 100 : 0;
+  const range = IDEAL_EMOJI_DENSITY[field];
+  const score = rangeScore(density, range);
+  if (density < range[0]) return { score, note: `${count} emoji${count === 1 ? "" : "s"}; a few more would help it stand out.` };
+  if (density > range[1]) return { score, note: `${count} emojis is a lot for this length.` };
+  return { score, note: `${count} emoji${count === 1 ? "" : "s"}, a comfortable amount.` };
+};
+
+const scoreCta = (text: string): ScoreCheck =>
+  CTA_PATTERN.test(text)
+    ? { score: 1, note: "Tells the reader what to do next." }
+    : { score: 0, note: "Add a call to action, e.g. \"Send us a WhatsApp message to order\"." };
+
+export const scoreCopy = (text: string, field: VariantField): CopyScore => {
+  const checks: Record<ScoreCheckId, ScoreCheck> = {
+    length: scoreLength(text, field),
+    hook: scoreHook(text),
+    emoji: scoreEmoji(text, field),
+    cta: scoreCta(text),
+  };
+  const total = (Object.keys(checks) as ScoreCheckId[]).reduce((sum, id) => sum + checks[id].score * SCORE_WEIGHTS[id], 0);
+  return { total: Math.round(total), checks };
+};
@@ -0,0 +1,76 @@
+import { downloadBlob } from "./download";
+
+// Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and newlines inside quotes
+export const parseCsv = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by Excel exports
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+};
+
+// Turns rows into objects keyed by the (trimmed, lower-cased) header row
+export const parseCsvRecords = (input: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(input);
+  if (!header) return [];
+
+  const keys = header.map(cell => cell.trim().toLowerCase());
+  return rows.map(cells =>
+    Object.fromEntries(keys.map((key, i) => [key, (cells[i] || "").trim()]))
+  );
+};
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Serialises rows with CRLF line endings, which every spreadsheet and importer accepts
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(",")).join("\r\n");
+
+export const downloadCsv = (fileName: string, rows: string[][]) => {
+  // Leading BOM makes Excel read ₦ and other non-ASCII text as UTF-8
+  downloadBlob(fileName, new Blob(["\uFEFF" + toCsv(rows)], { type: "text/csv;charset=utf-8" }));
+};
@@ -0,0 +1,63 @@
+const DB_NAME = "merchant-ai";
+// v2 adds the brand kit store, v3 the usage log, v4 the content calendar
+const DB_VERSION = 4;
+
+export const LISTINGS_STORE = "listings";
+export const BRAND_KITS_STORE = "brandKits";
+export const USAGE_STORE = "usage";
+export const SCHEDULE_STORE = "scheduledPosts";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(LISTINGS_STORE)) {
+        const store = db.createObjectStore(LISTINGS_STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+      if (!db.objectStoreNames.contains(BRAND_KITS_STORE)) {
+        db.createObjectStore(BRAND_KITS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        const store = db.createObjectStore(USAGE_STORE, { keyPath: "id" });
+        store.createIndex("at", "at");
+      }
+      if (!db.objectStoreNames.contains(SCHEDULE_STORE)) {
+        const store = db.createObjectStore(SCHEDULE_STORE, { keyPath: "id" });
+        store.createIndex("scheduledAt", "scheduledAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
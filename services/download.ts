@@ -0,0 +1,12 @@
+// Saves a blob through a temporary link. The object URL is revoked a little later:
+// revoking it straight after click() cancels the download in Safari and some Android WebViews.
+const REVOKE_DELAY_MS = 2000;
+
+export const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
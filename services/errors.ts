@@ -0,0 +1,133 @@
+import { ErrorCode, ErrorInfo } from "../types";
+
+// Every failure from an AI call is turned into one of these before it reaches the UI
+export class AiError extends Error implements ErrorInfo {
+  readonly code: ErrorCode;
+  readonly retryAfterMs?: number;
+
+  constructor(code: ErrorCode, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = "AiError";
+    this.code = code;
+    this.retryAfterMs = options.retryAfterMs;
+    if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+}
+
+// Worth trying again after a pause; schema mismatches get a repair request instead
+const RETRYABLE: ErrorCode[] = ["quota", "network", "unavailable", "invalidJson"];
+
+export const isRetryable = (error: unknown): boolean =>
+  error instanceof AiError && RETRYABLE.includes(error.code);
+
+// "Retry-After: 12" or Gemini's "Please retry in 12.5s"
+const parseRetryAfter = (text: string | null | undefined): number | undefined => {
+  if (!text) return undefined;
+  const seconds = text.match(/retry(?:-after)?[^0-9]{0,20}([0-9.]+)\s*s/i)?.[1] ?? (/^[0-9.]+$/.test(text.trim()) ? text.trim() : undefined);
+  return seconds ? Math.ceil(Number(seconds) * 1000) : undefined;
+};
+
+// Maps an HTTP failure from any provider to an error code
+export const httpError = (status: number, detail: string, retryAfterHeader?: string | null): AiError => {
+  const retryAfterMs = parseRetryAfter(retryAfterHeader) ?? parseRetryAfter(detail);
+  if (status === 401 || status === 403) {
+    return new AiError("missingKey", "The AI service rejected the API key.", { cause: detail });
+  }
+  if (status === 413) {
+    return new AiError("tooLarge", "The photos are too large to send.", { cause: detail });
+  }
+  if (status === 429) {
+    return new AiError("quota", "The AI service is busy or the usage quota ran out.", { retryAfterMs, cause: detail });
+  }
+  if (status === 400 && /safety|content.?policy|moderation/i.test(detail)) {
+    return new AiError("safety", "The request was blocked by the AI service's safety filters.", { cause: detail });
+  }
+  if (status >= 500) {
+    return new AiError("unavailable", "The AI service is temporarily unavailable.", { retryAfterMs, cause: detail });
+  }
+  return new AiError("unknown", `The AI service returned an error (${status}).`, { cause: detail });
+};
+
+const isAbort = (error: unknown) =>
+  error instanceof DOMException ? error.name === "AbortError" : (error as { name?: string })?.name === "AbortError";
+
+// Classifies anything thrown by a provider or SDK; unrecognised errors keep the fallback message
+export const toAiError = (error: unknown, fallbackMessage: string): AiError => {
+  if (error instanceof AiError) return error;
+  if (isAbort(error)) return new AiError("cancelled", "Cancelled.", { cause: error });
+
+  const status = typeof (error as { status?: unknown })?.status === "number" ? (error as { status: number }).status : null;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status) return httpError(status, message);
+
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return new AiError("network", "You appear to be offline.", { cause: error });
+  }
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new AiError("network", "Could not reach the AI service.", { cause: error });
+  }
+  if (/api.?key/i.test(message)) return new AiError("missingKey", message, { cause: error });
+  if (/RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(message)) {
+    return new AiError("quota", "The AI service is busy or the usage quota ran out.", { retryAfterMs: parseRetryAfter(message), cause: error });
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) {
+    return new AiError("safety", "The request was blocked by the AI service's safety filters.", { cause: error });
+  }
+  if (error instanceof SyntaxError) return new AiError("invalidJson", "The AI returned a response that could not be read.", { cause: error });
+  return new AiError("unknown", fallbackMessage, { cause: error });
+};
+
+// Plain object for React state
+export const toErrorInfo = (error: unknown, fallbackMessage: string = "Something went wrong. Please try again."): ErrorInfo => {
+  const { code, message, retryAfterMs } = toAiError(error, fallbackMessage);
+  return { code, message, retryAfterMs };
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AiError("cancelled", "Cancelled.");
+};
+
+// Waits, but gives up as soon as the request is cancelled
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AiError("cancelled", "Cancelled."));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiError("cancelled", "Cancelled."));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // A provider asking for a longer pause than this is reported instead of waited out
+  maxWaitMs?: number;
+}
+
+// Exponential backoff with full jitter; a provider's Retry-After wins when it is longer.
+// The last error is rethrown as it was, so the caller's toAiError supplies its own fallback message.
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, retries = 3, baseDelayMs = 800, maxDelayMs = 10_000, maxWaitMs = 30_000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task(attempt);
+    } catch (raw) {
+      // Classified only to decide whether to retry; the message is never shown
+      const error = toAiError(raw, "Request failed.");
+      if (error.code === "cancelled" || signal?.aborted) throw new AiError("cancelled", "Cancelled.", { cause: raw });
+      if (attempt >= retries || !isRetryable(error) || (error.retryAfterMs ?? 0) > maxWaitMs) throw raw;
+
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(Math.max(backoff, error.retryAfterMs ?? 0), signal);
+    }
+  }
+};
@@ -0,0 +1,148 @@
+import { Branding, ProductPhoto } from "../types";
+import { ImageAspectRatio } from "./aiProvider";
+import { generateLifestyleImage } from "./geminiService";
+import { IMAGE_TEMPLATES, TemplateId } from "./imageTemplates";
+import { DEFAULT_STUDIO_OPTIONS, createStudioShot } from "./studioShot";
+import { TemplateContent, renderTemplateToDataUrl } from "./templateRenderer";
+import { createZip, dataUrlToBytes, ZipEntry } from "./zip";
+
+export type PackVariantId = "feed" | "portrait" | "status" | "facebookCover" | "marketplace";
+
+export interface PackVariant {
+  id: PackVariantId;
+  label: string;
+  aspectRatio: ImageAspectRatio;
+  templateId: TemplateId;
+  // Extra direction when the photo is regenerated for this format
+  photoInstruction: string;
+  // The photo always has to be regenerated, e.g. to get a plain white background
+  requiresNewPhoto?: boolean;
+  // Cut the product out of the cover photo instead of generating a scene
+  cutout?: boolean;
+}
+
+export const EXPORT_PACK_VARIANTS: PackVariant[] = [
+  {
+    id: "feed",
+    label: "Square feed (1:1)",
+    aspectRatio: "1:1",
+    templateId: "priceBadge",
+    photoInstruction: "Square social media feed composition with the product centred.",
+  },
+  {
+    id: "portrait",
+    label: "Portrait feed (4:5)",
+    aspectRatio: "4:5",
+    templateId: "carousel",
+    photoInstruction: "Portrait composition with room for a caption block near the bottom.",
+  },
+  {
+    id: "status",
+    label: "WhatsApp / Instagram Status (9:16)",
+    aspectRatio: "9:16",
+    templateId: "story",
+    photoInstruction: "Tall full-screen story composition with the product in the upper half.",
+  },
+  {
+    id: "facebookCover",
+    label: "Facebook cover",
+    aspectRatio: "21:9",
+    templateId: "facebookCover",
+    photoInstruction: "Wide banner composition with the product on the right and calm empty space on the left for text.",
+  },
+  {
+    id: "marketplace",
+    label: "Marketplace white background",
+    aspectRatio: "1:1",
+    templateId: "marketplace",
+    photoInstruction: "Show only the product on a plain pure white studio background with a soft shadow. No props, no text, no other objects.",
+    requiresNewPhoto: true,
+    cutout: true,
+  },
+];
+
+export interface ExportPackRequest {
+  content: TemplateContent;
+  branding: Branding;
+  // The square variant uses the template the seller picked when it is square
+  feedTemplateId: TemplateId;
+  // Regenerate the photo at each aspect ratio instead of cropping the current one
+  reframeWithAi: boolean;
+  // The cover guides regenerated photos; the whole gallery ships in the zip
+  photos: ProductPhoto[];
+  productName: string;
+  description: string;
+  // Billed against this listing in the usage log
+  listingId?: string | null;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ExportPackResult {
+  blob: Blob;
+  // Variants whose photo could not be regenerated and fell back to the current one
+  fallbacks: string[];
+}
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "listing";
+
+const extensionOf = (file: File) => file.name.match(/\.[a-z0-9]+$/i)?.[0].toLowerCase() ?? ".jpg";
+
+// Original uploads, numbered in gallery order, with their captions for the listing form
+const galleryEntries = async (photos: ProductPhoto[], slug: string): Promise<ZipEntry[]> => {
+  if (photos.length === 0) return [];
+  const names = photos.map((photo, i) => `photos/${slug}-${String(i + 1).padStart(2, "0")}${extensionOf(photo.file)}`);
+  const files = await Promise.all(photos.map(async (photo, i) => ({
+    name: names[i],
+    data: new Uint8Array(await photo.file.arrayBuffer()),
+  })));
+  const captions = photos
+    .map((photo, i) => [names[i], photo.caption && `Caption: ${photo.caption}`, photo.altText && `Alt text: ${photo.altText}`].filter(Boolean).join("\n"))
+    .join("\n\n");
+  return [...files, { name: "photos/captions.txt", data: new TextEncoder().encode(captions + "\n") }];
+};
+
+export const exportPackFileName = (productName: string) => `${slugify(productName)}-export-pack.zip`;
+
+// Variants run one at a time so regenerated photos don't hit provider rate limits
+export const buildExportPack = async (request: ExportPackRequest): Promise<ExportPackResult> => {
+  const { content, branding, feedTemplateId, reframeWithAi, onProgress } = request;
+  const feedTemplate = IMAGE_TEMPLATES[feedTemplateId];
+  const entries: ZipEntry[] = [];
+  const fallbacks: string[] = [];
+  const slug = slugify(request.productName);
+
+  onProgress?.(0, EXPORT_PACK_VARIANTS.length);
+  for (const [i, variant] of EXPORT_PACK_VARIANTS.entries()) {
+    const template = variant.id === "feed" && feedTemplate.width === feedTemplate.height
+      ? feedTemplate
+      : IMAGE_TEMPLATES[variant.templateId];
+
+    let photoUrl = content.photoUrl;
+    if (reframeWithAi || variant.requiresNewPhoto) {
+      const cover = request.photos[0]?.file;
+      try {
+        photoUrl = variant.cutout && cover
+          ? (await createStudioShot(cover, request.productName, { ...DEFAULT_STUDIO_OPTIONS, background: "#ffffff" }, undefined, request.listingId)).imageUrl
+          : await generateLifestyleImage(
+              cover ?? null,
+              request.productName,
+              request.description,
+              variant.photoInstruction,
+              variant.aspectRatio,
+              undefined,
+              request.listingId
+            );
+      } catch (err) {
+        console.error(`Export pack photo error (${variant.id}):`, err);
+        fallbacks.push(variant.label);
+      }
+    }
+
+    const png = await renderTemplateToDataUrl(template, { ...content, photoUrl }, branding);
+    entries.push({ name: `${slug}-${variant.id}.png`, data: dataUrlToBytes(png) });
+    onProgress?.(i + 1, EXPORT_PACK_VARIANTS.length);
+  }
+
+  entries.push(...await galleryEntries(request.photos, slug));
+  return { blob: createZip(entries), fallbacks };
+};
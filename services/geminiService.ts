@@ -1,18 +1,103 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GeneratedProductContent } from "../types";
+import { Schema, Type } from "@google/genai";
+import { Branding, CopyAngle, CopyVariant, EditableField, GeneratedProductContent, GenerationSettings, LanguageCode, LocalizedCopy, MarketProfile, ProductPhoto, SocialChannel, UsageOperation, UsageRecord, VariantField } from "../types";
+import { AiProvider, getAiProvider, ImageAspectRatio, ImageInput, JsonGenerationRequest, ProviderUsage } from "./aiProvider";
+import { parsePriceSuggestion } from "./pricing";
+import { AiError, toAiError, withRetry } from "./errors";
+import { buildListingSchema, checkAgainstSchema } from "./listingSchema";
+import { parsePartialJson } from "./partialJson";
+import { DEFAULT_MARKET_ID, getMarket } from "./markets";
+import { DEFAULT_LANGUAGE, LANGUAGES } from "./languages";
+import { createId } from "./db";
+import { QuotaKind, recordUsage, reserveQuota } from "./usageStore";
+import { estimateTokens } from "./usageCosts";
+import { CHANNELS } from "./contentCalendar";
+import { COPY_ANGLES, createCopyVariant } from "./copyVariants";
+import { DEFAULT_GENERATION_SETTINGS } from "./generationSettings";
+import {
+  CHANNEL_CAPTION_PROMPT,
+  CUTOUT_PROMPT,
+  IMAGE_EDIT_PROMPT,
+  LIFESTYLE_IMAGE_PROMPT,
+  LISTING_PROMPT,
+  REGENERATE_FIELD_PROMPT,
+  REPAIR_PROMPT,
+  SYSTEM_PROMPT,
+  TRANSLATE_PROMPT,
+  VARIANTS_PROMPT,
+} from "./prompts";
+
+// Who the copy is for, which language it is written in and whose brand it speaks for
+export interface GenerationOptions {
+  market?: MarketProfile;
+  language?: LanguageCode;
+  brand?: Branding;
+  // Cancels the request, including any pending retry
+  signal?: AbortSignal;
+  // Streams a new listing: called with whatever has been parsed so far
+  onPartial?: (partial: Partial<GeneratedProductContent>) => void;
+  // Listing the usage is billed to, for per-listing cost estimates
+  listingId?: string | null;
+  // Tone, caption length, emojis, platform and audience
+  settings?: GenerationSettings;
+}
+
+const resolveOptions = (options: GenerationOptions) => ({
+  market: options.market ?? getMarket(DEFAULT_MARKET_ID),
+  language: options.language ?? DEFAULT_LANGUAGE,
+  brand: options.brand,
+  signal: options.signal,
+  onPartial: options.onPartial,
+  listingId: options.listingId ?? null,
+  settings: options.settings ?? DEFAULT_GENERATION_SETTINGS,
+});
+
+// One meter per seller action, so its retries and repair calls share a request id. It holds a
+// quota reservation until the action records usage or ends.
+const startMeter = async (operation: UsageOperation, kind: QuotaKind, listingId: string | null) => {
+  const release = await reserveQuota(kind);
+  const requestId = createId();
+  let recorded = false;
+  const record = (usage: ProviderUsage & { outcome?: UsageRecord["outcome"] }) => {
+    recorded = true;
+    recordUsage({ ...usage, requestId, operation, listingId })
+      .catch(err => console.error("Usage record error:", err))
+      .finally(release);
+  };
+  return {
+    onUsage: (usage: ProviderUsage) => record(usage),
+    // Providers don't report usage for a call that failed or was aborted midway, but it may
+    // still have been billed, so the prompt is counted. A quota refusal never reached a model.
+    fail: (error: unknown, prompt: string) => {
+      const { code } = toAiError(error, "");
+      if (recorded || code === "limitReached") return;
+      record({ model: "unknown", inputTokens: estimateTokens(prompt), outputTokens: 0, images: 0, outcome: code === "cancelled" ? "cancelled" : "failed" });
+    },
+    end: () => {
+      if (!recorded) release();
+    },
+  };
+};
+
+// Fields that change when a listing is translated; price and audience stay shared
+export const LOCALIZED_FIELDS: EditableField[] = [
+  "productName",
+  "shortDescription",
+  "longDescription",
+  "socialMediaPost",
+  "seoKeywords",
+  "hashtags",
+];
 
 // Helper to convert file to Base64
-const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+const fileToImageInput = async (file: File): Promise<ImageInput> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
       const base64Data = reader.result as string;
       const base64Content = base64Data.split(',')[1];
       resolve({
-        inlineData: {
-          data: base64Content,
-          mimeType: file.type,
-        },
+        data: base64Content,
+        mimeType: file.type,
       });
     };
     reader.onerror = reject;
@@ -20,110 +105,97 @@ const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: s
   });
 };
 
-export const generateProductContent = async (
-  imageFile: File | null,
-  textInput: string
-): Promise<GeneratedProductContent> => {
-  
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please check your environment variables.");
-  }
+// What a first analysis returns: the listing plus the photos with captions filled in
+export interface GeneratedListing {
+  data: GeneratedProductContent;
+  photos: ProductPhoto[];
+}
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  // Schema definition for structured JSON output
-  const schema = {
-    type: Type.OBJECT,
-    properties: {
-      productName: {
-        type: Type.STRING,
-        description: "A professional, catchy, and clean name for the product."
-      },
-      shortDescription: {
-        type: Type.STRING,
-        description: "A 2-3 sentence engaging description suitable for social media captions."
-      },
-      longDescription: {
-        type: Type.STRING,
-        description: "A detailed paragraph highlighting features, benefits, and use cases."
-      },
-      suggestedPrice: {
-        type: Type.STRING,
-        description: "A suggested price range in Nigerian Naira (₦) based on Jumia Nigeria market rates (e.g., '₦15,000 - ₦20,000')."
-      },
-      seoKeywords: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "Top 5-8 SEO keywords for search visibility."
-      },
-      hashtags: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "10-15 relevant and trending hashtags for Instagram/TikTok."
-      },
-      socialMediaPost: {
-        type: Type.STRING,
-        description: "A ready-to-post caption for Instagram/Facebook including emojis and hook."
-      },
-      targetAudience: {
-        type: Type.STRING,
-        description: "Brief description of who this product is for."
-      }
-    },
-    required: [
-      "productName",
-      "shortDescription",
-      "longDescription",
-      "suggestedPrice",
-      "seoKeywords",
-      "hashtags",
-      "socialMediaPost",
-      "targetAudience"
-    ]
+// Validates model output against the schema it was asked for. A bad answer gets one repair
+// request showing the model its own output and the problems; if that fails too, we give up.
+const generateValidJson = async (
+  provider: AiProvider,
+  request: JsonGenerationRequest,
+  extraCheck: (value: any) => string[] = () => []
+): Promise<any> => {
+  const check = (text: string) => {
+    const result = checkAgainstSchema(text, request.schema);
+    return result.problems.length ? result : { ...result, problems: extraCheck(result.value) };
   };
 
-  const model = "gemini-2.5-flash"; // Using 2.5 flash as recommended for general tasks + speed
+  const text = await provider.generateJson(request);
+  const first = check(text);
+  if (first.problems.length === 0) return first.value;
 
-  const parts: any[] = [];
+  console.warn("Repairing model output:", first.problems);
+  const repairPrompt = REPAIR_PROMPT.render({ problems: first.problems, previousAnswer: text, originalPrompt: request.prompt });
+  const repaired = check(await provider.generateJson({ ...request, prompt: repairPrompt, images: [], onPartialText: undefined }));
+  if (repaired.problems.length === 0) return repaired.value;
 
-  // Add text prompt
-  let promptText = "You are an expert e-commerce copywriter and sales strategist for the Nigerian market. Analyze the input (image and/or text) and generate a high-converting product listing.";
-  
-  if (textInput) {
-    promptText += `\n\nUser provided context: "${textInput}". Use this context to refine the description.`;
-  }
-  
-  if (!imageFile && !textInput) {
-    throw new Error("Please provide an image or text description.");
-  }
+  throw new AiError("schemaMismatch", `The AI response was incomplete (${repaired.problems.slice(0, 3).join("; ")}).`, { cause: repaired.problems });
+};
+
+const buildSystemInstruction = (market: MarketProfile, language: LanguageCode, settings: GenerationSettings, brand?: Branding) =>
+  SYSTEM_PROMPT.render({ market, language, settings, brand });
 
-  parts.push({ text: promptText });
+export const generateProductContent = async (
+  photos: ProductPhoto[],
+  textInput: string,
+  options: GenerationOptions = {}
+): Promise<GeneratedListing> => {
+  const provider = getAiProvider();
+  const { market, language, brand, signal, onPartial, listingId, settings } = resolveOptions(options);
 
-  // Add image if present
-  if (imageFile) {
-    const imagePart = await fileToGenerativePart(imageFile);
-    parts.push(imagePart);
+  if (photos.length === 0 && !textInput.trim()) {
+    throw new AiError("invalidInput", "Please provide an image or text description.");
   }
+  const promptText = LISTING_PROMPT.render({ market, photoCount: photos.length, sellerNotes: textInput });
 
+  const images = await Promise.all(photos.map(photo => fileToImageInput(photo.file)));
+
+  const meter = await startMeter("listing", "listing", listingId);
+  const { onUsage } = meter;
+
+  // Network and quota errors are retried; malformed output gets one repair request
   try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: { parts: parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        systemInstruction: "You are MerchantAI, a helpful assistant for Nigerian small business owners. Your tone is professional, enthusiastic, and sales-oriented. Always format currency in Nigerian Naira (₦). Use Jumia Nigeria pricing as a benchmark for accuracy. Focus on benefits relevant to the local market.",
-      },
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No response generated");
-    
-    return JSON.parse(text) as GeneratedProductContent;
+    return await withRetry(async () => {
+      const request = {
+        prompt: promptText,
+        images,
+        schema: buildListingSchema(market, photos.length, settings),
+        systemInstruction: buildSystemInstruction(market, language, settings, brand),
+        signal,
+        onUsage,
+        onPartialText: onPartial && ((text: string) => {
+          const partial = parsePartialJson(text);
+          if (partial && typeof partial === "object") onPartial(partial as Partial<GeneratedProductContent>);
+        }),
+      };
+      const priceCheck = (value: GeneratedProductContent) =>
+        parsePriceSuggestion(value.suggestedPrice, market.currency) ? [] : ["suggestedPrice: no usable amount"];
+
+      const { photos: photoNotes, ...parsed } = await generateValidJson(provider, request, priceCheck) as GeneratedProductContent & {
+        photos?: { caption?: string; altText?: string }[];
+      };
+      const suggestedPrice = parsePriceSuggestion(parsed.suggestedPrice, market.currency)!;
+
+      // Notes are matched by position; a short list leaves the remaining photos uncaptioned
+      return {
+        data: { ...parsed, suggestedPrice },
+        photos: photos.map((photo, i) => ({
+          ...photo,
+          caption: photoNotes?.[i]?.caption?.trim() ?? photo.caption,
+          altText: photoNotes?.[i]?.altText?.trim() ?? photo.altText,
+        })),
+      };
+    }, { signal });
 
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw new Error("Failed to generate content. Please try again.");
+    meter.fail(error, promptText);
+    console.error(`AI provider (${provider.name}) error:`, error);
+    throw toAiError(error, "Failed to generate content. Please try again.");
+  } finally {
+    meter.end();
   }
 };
 
@@ -131,59 +203,307 @@ export const generateLifestyleImage = async (
   originalImage: File | null,
   productName: string,
   description: string,
-  editInstruction: string = ""
+  editInstruction: string = "",
+  aspectRatio: ImageAspectRatio = "1:1",
+  signal?: AbortSignal,
+  listingId: string | null = null
 ): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing.");
+  const provider = getAiProvider();
+  const images: ImageInput[] = [];
+
+  if (originalImage) {
+    // If original image exists, use it as reference
+    images.push(await fileToImageInput(originalImage));
   }
+  const promptText = LIFESTYLE_IMAGE_PROMPT.render({
+    productName,
+    description,
+    editInstruction,
+    aspectRatio,
+    hasReferencePhoto: images.length > 0,
+  });
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = "gemini-2.5-flash-image";
+  const meter = await startMeter("image", "image", listingId);
+  const { onUsage } = meter;
 
-  const parts: any[] = [];
-  
-  // Construct a prompt for image generation/editing
-  let promptText = `Create a high-quality, professional Instagram lifestyle photography shot for the product "${productName}". 
-  Context/Description: ${description}. 
-  The image should be aesthetically pleasing, bright, and suitable for social media marketing. 
-  Aspect Ratio 1:1.`;
+  try {
+    return await withRetry(() => provider.generateImage({ prompt: promptText, images, aspectRatio, signal, onUsage }), { signal });
 
-  if (editInstruction) {
-      promptText += `\n\nIMPORTANT EDIT INSTRUCTION: ${editInstruction}. Modify the image to strictly follow this instruction (e.g., change color, background, or setting).`;
+  } catch (error) {
+    meter.fail(error, promptText);
+    console.error(`AI provider (${provider.name}) image error:`, error);
+    throw toAiError(error, "Failed to generate lifestyle image.");
+  } finally {
+    meter.end();
   }
+};
 
-  if (originalImage) {
-    // If original image exists, use it as reference
-    const imagePart = await fileToGenerativePart(originalImage);
-    parts.push(imagePart);
-    promptText += " preserve the key visual details of the product in the input image but place it in a better background/setting.";
+// Fallback for background removal: the product alone on a flat white backdrop, easy to cut out locally
+export const isolateProductImage = async (
+  originalImage: File,
+  productName: string,
+  signal?: AbortSignal,
+  listingId: string | null = null
+): Promise<string> => {
+  const provider = getAiProvider();
+
+  const promptText = CUTOUT_PROMPT.render({ productName });
+
+  const meter = await startMeter("cutout", "image", listingId);
+  const { onUsage } = meter;
+
+  try {
+    const images = [await fileToImageInput(originalImage)];
+    return await withRetry(() => provider.generateImage({ prompt: promptText, images, aspectRatio: "1:1", signal, onUsage }), { signal });
+
+  } catch (error) {
+    meter.fail(error, promptText);
+    console.error(`AI provider (${provider.name}) image error:`, error);
+    throw toAiError(error, "Failed to remove the background.");
+  } finally {
+    meter.end();
   }
+};
 
-  parts.push({ text: promptText });
+// Generated images are data URLs, but some providers hand back a hosted URL
+const imageUrlToImageInput = async (url: string): Promise<ImageInput> => {
+  const match = url.match(/^data:([^;,]+)(;base64)?,(.*)$/);
+  if (match && match[2]) return { mimeType: match[1], data: match[3] };
+
+  const blob = await (await fetch(url)).blob();
+  return fileToImageInput(new File([blob], "image", { type: blob.type || "image/png" }));
+};
+
+// Edits an existing generated image, so changes build on each other
+export const editLifestyleImage = async (
+  currentImageUrl: string,
+  editInstruction: string,
+  aspectRatio: ImageAspectRatio = "1:1",
+  signal?: AbortSignal,
+  listingId: string | null = null
+): Promise<string> => {
+  const provider = getAiProvider();
+
+  const promptText = IMAGE_EDIT_PROMPT.render({ editInstruction, aspectRatio });
+
+  const meter = await startMeter("imageEdit", "image", listingId);
+  const { onUsage } = meter;
 
   try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: { parts: parts },
-      config: {
-        // No responseMimeType/responseSchema for nano banana series
+    const images = [await imageUrlToImageInput(currentImageUrl)];
+    return await withRetry(() => provider.generateImage({ prompt: promptText, images, aspectRatio, signal, onUsage }), { signal });
+
+  } catch (error) {
+    meter.fail(error, promptText);
+    console.error(`AI provider (${provider.name}) image error:`, error);
+    throw toAiError(error, "Failed to edit the image.");
+  } finally {
+    meter.end();
+  }
+};
+
+export const regenerateField = async <K extends EditableField>(
+  data: GeneratedProductContent,
+  field: K,
+  instruction: string = "",
+  options: GenerationOptions = {}
+): Promise<GeneratedProductContent[K]> => {
+  const provider = getAiProvider();
+  const { market, language, brand, signal, listingId, settings } = resolveOptions(options);
+
+  // Only the one field is requested, using the same schema entry as a full generation
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: { [field]: buildListingSchema(market, 0, settings).properties![field] },
+    required: [field],
+  };
+
+  const { [field]: current, ...rest } = data;
+  const promptText = REGENERATE_FIELD_PROMPT.render({ rest, field, current, instruction });
+
+  const meter = await startMeter("regenerate", "text", listingId);
+  const { onUsage } = meter;
+
+  try {
+    return await withRetry(async () => {
+      const result = await generateValidJson(provider, {
+        prompt: promptText,
+        schema,
+        systemInstruction: buildSystemInstruction(market, language, settings, brand),
+        signal,
+        onUsage,
+      }) as Pick<GeneratedProductContent, K>;
+      return result[field];
+    }, { signal });
+
+  } catch (error) {
+    meter.fail(error, promptText);
+    console.error(`AI provider (${provider.name}) error:`, error);
+    throw toAiError(error, "Failed to regenerate this field. Please try again.");
+  } finally {
+    meter.end();
+  }
+};
+
+// Alternative versions of listing fields for A/B testing, one per selling angle, in a single call
+export const generateCopyVariants = async (
+  data: GeneratedProductContent,
+  fields: VariantField[],
+  angles: CopyAngle[],
+  options: GenerationOptions = {}
+): Promise<CopyVariant[]> => {
+  const provider = getAiProvider();
+  const { market, language, brand, signal, listingId, settings } = resolveOptions(options);
+  const properties = buildListingSchema(market, 0, settings).properties!;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(fields.map(field => [field, {
+      type: Type.ARRAY,
+      description: `Exactly ${angles.length} versions of ${field}, one per angle. ${properties[field].description}`,
+      minItems: String(angles.length),
+      maxItems: String(angles.length),
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          angle: { type: Type.STRING, enum: angles },
+          text: { type: Type.STRING, maxLength: properties[field].maxLength }
+        },
+        required: ["angle", "text"]
       }
-    });
-
-    // Iterate through parts to find the image
-    const content = response.candidates?.[0]?.content;
-    if (content?.parts) {
-      for (const part of content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-        }
+    }])),
+    required: fields,
+  };
+
+  // The schema can't say "each angle once", so that is checked separately
+  const coversEachAngle = (value: Record<VariantField, { angle: CopyAngle }[]>) =>
+    fields
+      .filter(field => new Set(value[field].map(item => item.angle)).size !== angles.length)
+      .map(field => `${field} must have exactly one version for each angle (${angles.join(", ")})`);
+
+  const promptText = VARIANTS_PROMPT.render({
+    listing: data,
+    fields,
+    angles: angles.map(angle => ({ angle, instruction: COPY_ANGLES[angle].instruction })),
+  });
+
+  const meter = await startMeter("variants", "text", listingId);
+  const { onUsage } = meter;
+
+  try {
+    return await withRetry(async () => {
+      const result = await generateValidJson(provider, {
+        prompt: promptText,
+        schema,
+        systemInstruction: buildSystemInstruction(market, language, settings, brand),
+        signal,
+        onUsage,
+      }, coversEachAngle) as Record<VariantField, { angle: CopyAngle; text: string }[]>;
+      return fields.flatMap(field => result[field].map(item => createCopyVariant(field, item.angle, item.text)));
+    }, { signal });
+
+  } catch (error) {
+    meter.fail(error, promptText);
+    console.error(`AI provider (${provider.name}) error:`, error);
+    throw toAiError(error, "Failed to write the variants. Please try again.");
+  } finally {
+    meter.end();
+  }
+};
+
+// A caption for one content calendar slot. Captions already planned for the listing are
+// passed in so each slot gets a fresh angle instead of the same post again.
+export const writeChannelCaption = async (
+  data: GeneratedProductContent,
+  channel: SocialChannel,
+  otherCaptions: string[] = [],
+  options: GenerationOptions = {}
+): Promise<string> => {
+  const provider = getAiProvider();
+  const { market, language, brand, signal, listingId, settings } = resolveOptions(options);
+  const profile = CHANNELS[channel];
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      socialMediaPost: {
+        type: Type.STRING,
+        description: `A ready-to-post ${profile.label} caption.`,
+        maxLength: String(profile.captionLimit)
       }
-    }
-    
-    throw new Error("No image generated by the model.");
+    },
+    required: ["socialMediaPost"],
+  };
+
+  const promptText = CHANNEL_CAPTION_PROMPT.render({
+    listing: data,
+    channelLabel: profile.label,
+    guidance: profile.guidance,
+    otherCaptions,
+  });
+
+  const meter = await startMeter("caption", "text", listingId);
+  const { onUsage } = meter;
+
+  try {
+    return await withRetry(async () => {
+      const result = await generateValidJson(provider, {
+        prompt: promptText,
+        schema,
+        systemInstruction: buildSystemInstruction(market, language, settings, brand),
+        signal,
+        onUsage,
+      }) as Pick<GeneratedProductContent, "socialMediaPost">;
+      return result.socialMediaPost;
+    }, { signal });
+
+  } catch (error) {
+    meter.fail(error, promptText);
+    console.error(`AI provider (${provider.name}) error:`, error);
+    throw toAiError(error, `Failed to write the ${profile.label} caption. Please try again.`);
+  } finally {
+    meter.end();
+  }
+};
+
+// Adapts the customer-facing copy of a listing into another language
+export const translateListing = async (
+  data: GeneratedProductContent,
+  language: LanguageCode,
+  options: Omit<GenerationOptions, "language"> = {}
+): Promise<LocalizedCopy> => {
+  const provider = getAiProvider();
+  const { market, brand, signal, listingId, settings } = resolveOptions(options);
+  const properties = buildListingSchema(market, 0, settings).properties!;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(LOCALIZED_FIELDS.map(field => [field, properties[field]])),
+    required: LOCALIZED_FIELDS,
+  };
+
+  const source = Object.fromEntries(LOCALIZED_FIELDS.map(field => [field, data[field]])) as LocalizedCopy;
+  const promptText = TRANSLATE_PROMPT.render({ source, language, market });
+
+  const meter = await startMeter("translate", "text", listingId);
+  const { onUsage } = meter;
+
+  try {
+    return await withRetry(async () => {
+      return await generateValidJson(provider, {
+        prompt: promptText,
+        schema,
+        systemInstruction: buildSystemInstruction(market, language, settings, brand),
+        signal,
+        onUsage,
+      }) as LocalizedCopy;
+    }, { signal });
 
   } catch (error) {
-    console.error("Gemini Image Gen Error:", error);
-    throw new Error("Failed to generate lifestyle image.");
+    meter.fail(error, promptText);
+    console.error(`AI provider (${provider.name}) error:`, error);
+    throw toAiError(error, `Failed to translate into ${LANGUAGES[language].label}. Please try again.`);
+  } finally {
+    meter.end();
   }
-};
\ No newline at end of file
+};
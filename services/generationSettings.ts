@@ -0,0 +1,104 @@
+import { CaptionLength, CopyTone, EmojiLevel, GenerationPreset, GenerationSettings, TargetPlatform } from "../types";
+import { createId } from "./db";
+
+const SETTINGS_KEY = "merchant-ai:generation-settings";
+const PRESETS_KEY = "merchant-ai:generation-presets";
+
+// Standard matches how listings were always written, so older listings keep their voice
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  tone: "standard",
+  captionLength: "long",
+  emojiLevel: "light",
+  platform: "general",
+  audience: "",
+};
+
+export const TONES: Record<CopyTone, { label: string; voice: string }> = {
+  standard: { label: "Standard", voice: "professional, enthusiastic, and sales-oriented" },
+  luxury: { label: "Luxury", voice: "refined, confident and understated, selling quality, craftsmanship and exclusivity rather than discounts" },
+  playful: { label: "Playful", voice: "fun, witty and energetic, with light humour and a chatty, friendly feel" },
+  budget: { label: "Budget", voice: "straightforward and value-focused, stressing affordability, savings and everyday usefulness" },
+  formal: { label: "Formal", voice: "formal, polite and precise, with no slang" },
+};
+
+export const CAPTION_LENGTHS: Record<CaptionLength, { label: string; guide: string }> = {
+  short: { label: "Short", guide: "one or two punchy sentences" },
+  medium: { label: "Medium", guide: "three to five sentences" },
+  long: { label: "Long", guide: "a full post of up to three short paragraphs" },
+};
+
+export const EMOJI_LEVELS: Record<EmojiLevel, { label: string; instruction: string }> = {
+  none: { label: "None", instruction: "Do not use any emojis." },
+  light: { label: "Light", instruction: "Use emojis sparingly: a few in the social media post and none in the descriptions." },
+  heavy: { label: "Lots", instruction: "Use emojis generously in the social media post, and a couple in the short description." },
+};
+
+// Where the social media post will be used; other fields stay platform-neutral
+export const PLATFORMS: Record<TargetPlatform, { label: string; caption: string }> = {
+  general: { label: "Any", caption: "A ready-to-post caption for Instagram/Facebook with a strong hook." },
+  instagram: { label: "Instagram", caption: "An Instagram caption with a hook in the first line, before the caption is cut off." },
+  facebook: { label: "Facebook", caption: "A conversational Facebook post that ends with a question or call to action." },
+  tiktok: { label: "TikTok", caption: "A punchy TikTok caption that makes people stop and watch." },
+  whatsapp: { label: "WhatsApp", caption: "A message for WhatsApp Status and customer groups: personal and direct, ending with how to order by message." },
+  marketplace: { label: "Marketplace", caption: "A short promotional blurb for a Jumia or Jiji listing: factual and benefit-led, with no hashtags." },
+};
+
+// Short label for the settings panel, e.g. "Luxury · Short caption · No emojis · Instagram"
+export const describeSettings = (settings: GenerationSettings): string =>
+  [
+    TONES[settings.tone].label,
+    `${CAPTION_LENGTHS[settings.captionLength].label} caption`,
+    settings.emojiLevel === "none" ? "No emojis" : `${EMOJI_LEVELS[settings.emojiLevel].label} emojis`,
+    settings.platform === "general" ? "Any platform" : PLATFORMS[settings.platform].label,
+    settings.audience.trim() && `For ${settings.audience.trim()}`,
+  ].filter(Boolean).join(" · ");
+
+export const isSameSettings = (a: GenerationSettings, b: GenerationSettings): boolean =>
+  (Object.keys(DEFAULT_GENERATION_SETTINGS) as (keyof GenerationSettings)[]).every(key => a[key] === b[key]);
+
+// Fills in fields added since the settings were stored
+export const normalizeSettings = (settings?: Partial<GenerationSettings>): GenerationSettings => ({
+  ...DEFAULT_GENERATION_SETTINGS,
+  ...settings,
+});
+
+export const createPreset = (name: string, settings: GenerationSettings): GenerationPreset => ({
+  id: createId(),
+  name,
+  settings,
+});
+
+export const loadGenerationSettings = (): GenerationSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return normalizeSettings(stored ? JSON.parse(stored) : undefined);
+  } catch {
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Private browsing can block storage; the choice just won't persist
+  }
+};
+
+export const loadPresets = (): GenerationPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_KEY);
+    const presets: GenerationPreset[] = stored ? JSON.parse(stored) : [];
+    return presets.map(preset => ({ ...preset, settings: normalizeSettings(preset.settings) }));
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (presets: GenerationPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch {
+    // Private browsing can block storage; presets last until the tab closes
+  }
+};
@@ -0,0 +1,153 @@
+import { Branding, GeneratedProductContent, GenerationSettings, LanguageCode, MarketId, ProductPhoto, SavedListing } from "../types";
+import { parsePriceSuggestion } from "./pricing";
+import { DEFAULT_MARKET_ID, getMarket } from "./markets";
+import { DEFAULT_LANGUAGE } from "./languages";
+import { LISTINGS_STORE, createId, runRequest } from "./db";
+import { DEFAULT_BRANDING } from "./brandKitStore";
+import { addVersion, createVersionTree, getCurrentVersion } from "./imageVersions";
+import { createProductPhoto } from "./productPhotos";
+import { normalizeSettings } from "./generationSettings";
+
+// Listings saved before version history had just the one image
+const normalizeImageVersions = (listing: SavedListing): Pick<SavedListing, "imageVersions" | "marketingImageUrl"> => {
+  if (listing.imageVersions) {
+    return { imageVersions: listing.imageVersions, marketingImageUrl: getCurrentVersion(listing.imageVersions)?.imageUrl ?? null };
+  }
+  return {
+    imageVersions: listing.marketingImageUrl ? addVersion(createVersionTree(), listing.marketingImageUrl, "") : createVersionTree(),
+    marketingImageUrl: listing.marketingImageUrl,
+  };
+};
+
+// Listings saved before galleries kept a single optional upload
+const normalizePhotos = (listing: SavedListing): ProductPhoto[] => {
+  if (listing.photos) return listing.photos;
+  const { inputImage } = listing as SavedListing & { inputImage?: File | null };
+  return inputImage ? [createProductPhoto(inputImage)] : [];
+};
+
+// Upgrades records saved by older versions of the app (e.g. text prices) on read
+const normalizeListing = (listing: SavedListing): SavedListing => {
+  const stored = listing as SavedListing & { customPrice?: unknown };
+  const marketId = listing.marketId ?? DEFAULT_MARKET_ID;
+  const { currency } = getMarket(marketId);
+  const suggestedPrice = parsePriceSuggestion(listing.data.suggestedPrice, currency) ?? {
+    min: 0, max: 0, recommended: 0, currency, rationale: "",
+  };
+  const customPrice = typeof stored.customPrice === "string"
+    ? parsePriceSuggestion(stored.customPrice)?.recommended ?? null
+    : typeof stored.customPrice === "number" ? stored.customPrice : null;
+
+  return {
+    ...listing,
+    photos: normalizePhotos(listing),
+    // Guards against listings saved before output was validated
+    data: {
+      ...listing.data,
+      suggestedPrice,
+      seoKeywords: Array.isArray(listing.data.seoKeywords) ? listing.data.seoKeywords : [],
+      hashtags: Array.isArray(listing.data.hashtags) ? listing.data.hashtags : [],
+    },
+    customPrice,
+    marketId,
+    branding: { ...DEFAULT_BRANDING, ...listing.branding },
+    ...normalizeImageVersions(listing),
+    language: listing.language ?? DEFAULT_LANGUAGE,
+    translations: listing.translations ?? {},
+    variants: listing.variants ?? [],
+    settings: normalizeSettings(listing.settings),
+  };
+};
+
+export const createListingId = createId;
+
+export const buildListing = (
+  fields: {
+    // Set when usage was metered against the listing before it was saved
+    id?: string;
+    textInput: string;
+    photos: ProductPhoto[];
+    data: GeneratedProductContent;
+    branding: Branding;
+    marketId: MarketId;
+    language: LanguageCode;
+    settings: GenerationSettings;
+    translations?: SavedListing["translations"];
+  }
+): SavedListing => {
+  const now = Date.now();
+  return {
+    createdAt: now,
+    updatedAt: now,
+    marketingImageUrl: null,
+    imageVersions: createVersionTree(),
+    customPrice: null,
+    variants: [],
+    ...fields,
+    id: fields.id ?? createListingId(),
+    translations: fields.translations ?? {},
+  };
+};
+
+export const saveListing = async (listing: SavedListing): Promise<void> => {
+  await runRequest(LISTINGS_STORE, "readwrite", store => store.put(listing));
+};
+
+export const getListing = async (id: string): Promise<SavedListing | undefined> => {
+  const listing = await runRequest<SavedListing | undefined>(LISTINGS_STORE, "readonly", store => store.get(id));
+  return listing && normalizeListing(listing);
+};
+
+// Newest first
+export const getAllListings = async (): Promise<SavedListing[]> => {
+  const listings = await runRequest<SavedListing[]>(LISTINGS_STORE, "readonly", store => store.getAll());
+  return listings.map(normalizeListing).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const updateListing = async (
+  id: string,
+  changes: Partial<Omit<SavedListing, "id" | "createdAt">>
+): Promise<SavedListing | undefined> => {
+  const existing = await getListing(id);
+  if (!existing) return undefined;
+
+  const updated: SavedListing = { ...existing, ...changes, updatedAt: Date.now() };
+  await saveListing(updated);
+  return updated;
+};
+
+export const duplicateListing = async (id: string): Promise<SavedListing | undefined> => {
+  const existing = await getListing(id);
+  if (!existing) return undefined;
+
+  const now = Date.now();
+  const copy: SavedListing = {
+    ...existing,
+    id: createListingId(),
+    createdAt: now,
+    updatedAt: now,
+    data: { ...existing.data, productName: `${existing.data.productName} (Copy)` },
+  };
+  await saveListing(copy);
+  return copy;
+};
+
+export const deleteListing = async (id: string): Promise<void> => {
+  await runRequest(LISTINGS_STORE, "readwrite", store => store.delete(id));
+};
+
+export const matchesSearch = (listing: SavedListing, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    listing.data.productName,
+    listing.data.shortDescription,
+    listing.textInput,
+    listing.branding.businessName,
+    ...listing.data.seoKeywords,
+    ...listing.data.hashtags,
+    ...Object.values(listing.translations).map(copy => copy?.productName),
+  ].join(" ").toLowerCase();
+  return haystack.includes(needle);
+};
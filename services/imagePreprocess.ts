@@ -0,0 +1,214 @@
+import { ImageQualityIssue } from "../types";
+
+// Phone photos of 8-12 MB are slow on mobile data; the model reads products fine at this size
+const MAX_DIMENSION = 1600;
+const MAX_BYTES = 900 * 1024;
+const JPEG_QUALITIES = [0.85, 0.75, 0.65, 0.55];
+// Vector uploads have no pixel size of their own
+const SVG_RENDER_SIZE = 1024;
+
+// Quality checks run on a small greyscale copy
+const ANALYSIS_SIZE = 256;
+const DARK_LUMINANCE = 60;
+const BLUR_VARIANCE = 80;
+const MIN_DIMENSION = 400;
+
+export const QUALITY_ISSUE_MESSAGES: Record<ImageQualityIssue, string> = {
+  blurry: "looks blurry. Hold the phone steady or tap to focus before shooting.",
+  dark: "is quite dark. Try shooting near a window or in daylight.",
+  lowResolution: "is very small, so details may be missed.",
+};
+
+export interface PreprocessedImage {
+  file: File;
+  issues: ImageQualityIssue[];
+  originalBytes: number;
+}
+
+const HEIC_TYPES = ["image/heic", "image/heif"];
+
+const isHeic = (file: File) =>
+  HEIC_TYPES.includes(file.type.toLowerCase()) || /\.hei[cf]$/i.test(file.name);
+
+const isSvg = (file: File) => file.type === "image/svg+xml" || /\.svg$/i.test(file.name);
+
+// Reads the EXIF orientation (1-8) from a JPEG; 1 when absent or not a JPEG
+const readExifOrientation = async (file: File): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Modern browsers apply EXIF orientation when decoding; older ones need the canvas rotated by hand
+const browserAppliesOrientation = () =>
+  typeof CSS !== "undefined" && CSS.supports("image-orientation", "from-image");
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(isHeic(file)
+        ? `${file.name} is a HEIC photo this browser can't open. Set your camera to "Most Compatible" or share it as JPEG.`
+        : `${file.name} could not be read as an image.`));
+    };
+    img.src = url;
+  });
+
+const sourceSize = (img: HTMLImageElement, file: File) => {
+  if (isSvg(file) && (!img.naturalWidth || !img.naturalHeight)) return { width: SVG_RENDER_SIZE, height: SVG_RENDER_SIZE };
+  const scale = isSvg(file) ? SVG_RENDER_SIZE / Math.max(img.naturalWidth, img.naturalHeight) : 1;
+  return { width: img.naturalWidth * scale, height: img.naturalHeight * scale };
+};
+
+// Draws the image upright and no larger than maxDimension
+const drawUpright = (img: HTMLImageElement, file: File, orientation: number, maxDimension: number): HTMLCanvasElement => {
+  const { width, height } = sourceSize(img, file);
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const drawWidth = Math.round(width * scale);
+  const drawHeight = Math.round(height * scale);
+  // Orientations 5-8 swap width and height
+  const swap = orientation >= 5 && orientation <= 8;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = swap ? drawHeight : drawWidth;
+  canvas.height = swap ? drawWidth : drawHeight;
+  const ctx = canvas.getContext("2d")!;
+
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, drawWidth, 0],
+    3: [-1, 0, 0, -1, drawWidth, drawHeight],
+    4: [1, 0, 0, -1, 0, drawHeight],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, drawHeight, 0],
+    7: [0, -1, -1, 0, drawHeight, drawWidth],
+    8: [0, -1, 1, 0, 0, drawWidth],
+  };
+  const transform = transforms[orientation];
+  if (transform) ctx.transform(...transform);
+  ctx.drawImage(img, 0, 0, drawWidth, drawHeight);
+  return canvas;
+};
+
+const hasTransparency = (canvas: HTMLCanvasElement): boolean => {
+  const { data } = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4 * 16) {
+    if (data[i] < 250) return true;
+  }
+  return false;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the image."))), type, quality);
+  });
+
+const shrink = (canvas: HTMLCanvasElement, factor: number): HTMLCanvasElement => {
+  const smaller = document.createElement("canvas");
+  smaller.width = Math.round(canvas.width * factor);
+  smaller.height = Math.round(canvas.height * factor);
+  smaller.getContext("2d")!.drawImage(canvas, 0, 0, smaller.width, smaller.height);
+  return smaller;
+};
+
+// Steps JPEG quality down, then size, until the photo fits the budget
+const encodeWithinBudget = async (canvas: HTMLCanvasElement, transparent: boolean): Promise<Blob> => {
+  if (transparent) {
+    const png = await canvasToBlob(canvas, "image/png");
+    if (png.size <= MAX_BYTES || canvas.width <= MIN_DIMENSION) return png;
+    return encodeWithinBudget(shrink(canvas, 0.75), true);
+  }
+
+  let blob: Blob | null = null;
+  for (const quality of JPEG_QUALITIES) {
+    blob = await canvasToBlob(canvas, "image/jpeg", quality);
+    if (blob.size <= MAX_BYTES) return blob;
+  }
+  return canvas.width <= MIN_DIMENSION ? blob! : encodeWithinBudget(shrink(canvas, 0.75), false);
+};
+
+// Mean brightness and the variance of a Laplacian filter, a cheap sharpness measure
+const analyseQuality = (canvas: HTMLCanvasElement, originalWidth: number, originalHeight: number): ImageQualityIssue[] => {
+  const small = shrink(canvas, Math.min(1, ANALYSIS_SIZE / Math.max(canvas.width, canvas.height)));
+  const { width, height } = small;
+  const { data } = small.getContext("2d")!.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  let total = 0;
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    total += gray[i];
+  }
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const variance = count ? sumSquares / count - (sum / count) ** 2 : 0;
+
+  const issues: ImageQualityIssue[] = [];
+  if (count && variance < BLUR_VARIANCE) issues.push("blurry");
+  if (total / gray.length < DARK_LUMINANCE) issues.push("dark");
+  if (Math.max(originalWidth, originalHeight) < MIN_DIMENSION) issues.push("lowResolution");
+  return issues;
+};
+
+const replaceExtension = (name: string, type: string) =>
+  `${name.replace(/\.[^.]+$/, "") || "photo"}.${type === "image/png" ? "png" : "jpg"}`;
+
+// Uprights, converts and compresses one upload, and reports anything worth a retake
+export const preprocessImage = async (file: File): Promise<PreprocessedImage> => {
+  const [img, orientation] = await Promise.all([loadImage(file), readExifOrientation(file)]);
+  const applied = browserAppliesOrientation() ? 1 : orientation;
+  const canvas = drawUpright(img, file, applied, MAX_DIMENSION);
+  const { width, height } = sourceSize(img, file);
+  const issues = isSvg(file) ? [] : analyseQuality(canvas, width, height);
+
+  // Small, upright JPEGs and PNGs go through untouched
+  const isPlainRaster = file.type === "image/jpeg" || file.type === "image/png";
+  const fitsAlready = isPlainRaster && applied === 1 && file.size <= MAX_BYTES && Math.max(width, height) <= MAX_DIMENSION;
+  if (fitsAlready) return { file, issues, originalBytes: file.size };
+
+  const transparent = (isSvg(file) || file.type === "image/png" || file.type === "image/webp") && hasTransparency(canvas);
+  const blob = await encodeWithinBudget(canvas, transparent);
+  return {
+    file: new File([blob], replaceExtension(file.name, blob.type), { type: blob.type, lastModified: file.lastModified }),
+    issues,
+    originalBytes: file.size,
+  };
+};
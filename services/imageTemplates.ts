@@ -0,0 +1,186 @@
+// Declarative layouts for marketing images. Positions and sizes are fractions of the
+// canvas (0-1) so a template scales to any output size; one renderer draws them all.
+
+export type TemplateId = "priceBadge" | "saleBanner" | "minimal" | "story" | "carousel" | "facebookCover" | "marketplace";
+
+// Text a template can place; empty values are skipped when drawing
+export type TemplateTextField =
+  | "businessName"
+  | "tagline"
+  | "productName"
+  | "price"
+  | "originalPrice"
+  | "discount"
+  | "cta"
+  | "phone";
+
+// "primary" and "accent" come from the brand kit; anything else is a CSS colour
+export type TemplateColor = "primary" | "accent" | string;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLayer {
+  type: "text";
+  field: TemplateTextField;
+  x: number;
+  y: number;
+  // Font size as a fraction of the canvas width
+  size: number;
+  font: "heading" | "body";
+  color: TemplateColor;
+  bold?: boolean;
+  align?: CanvasTextAlign;
+  baseline?: CanvasTextBaseline;
+  maxWidth?: number;
+  maxLines?: number;
+  uppercase?: boolean;
+  strikethrough?: boolean;
+  // Drop shadow so text stays readable on busy photos
+  shadow?: boolean;
+  // Pill drawn behind the text, sized to fit it
+  background?: TemplateColor;
+  prefix?: string;
+}
+
+export interface ShapeLayer extends Box {
+  type: "rect";
+  color: TemplateColor;
+  opacity?: number;
+  radius?: number;
+}
+
+export interface LogoLayer {
+  type: "logo";
+  x: number;
+  y: number;
+  size: number;
+  align?: "left" | "center";
+}
+
+export type TemplateLayer = TextLayer | ShapeLayer | LogoLayer;
+
+export interface ImageTemplate {
+  id: TemplateId;
+  name: string;
+  description: string;
+  width: number;
+  height: number;
+  // Where the product photo is drawn; defaults to the whole canvas
+  photo?: Box;
+  // "cover" crops to fill the box, "contain" shows the whole photo; defaults to cover
+  photoFit?: "cover" | "contain";
+  background?: TemplateColor;
+  layers: TemplateLayer[];
+}
+
+export const IMAGE_TEMPLATES: Record<TemplateId, ImageTemplate> = {
+  priceBadge: {
+    id: "priceBadge",
+    name: "Price Badge",
+    description: "Logo top left, price badge bottom right",
+    width: 1080,
+    height: 1080,
+    layers: [
+      { type: "logo", x: 0.04, y: 0.04, size: 0.12 },
+      { type: "text", field: "businessName", x: 0.04, y: 0.18, size: 0.04, font: "heading", bold: true, color: "#ffffff", shadow: true, maxWidth: 0.5 },
+      { type: "text", field: "tagline", x: 0.04, y: 0.23, size: 0.024, font: "body", color: "#ffffff", shadow: true, maxWidth: 0.5 },
+      { type: "text", field: "phone", x: 0.04, y: 0.95, size: 0.028, font: "body", bold: true, color: "#ffffff", shadow: true, baseline: "bottom", prefix: "WhatsApp " },
+      { type: "text", field: "price", x: 0.95, y: 0.95, size: 0.05, font: "heading", bold: true, color: "accent", background: "primary", align: "right", baseline: "bottom" },
+    ],
+  },
+  saleBanner: {
+    id: "saleBanner",
+    name: "Sale Banner",
+    description: "Bold sale strip with the old price struck through",
+    width: 1080,
+    height: 1080,
+    layers: [
+      { type: "rect", x: 0, y: 0, width: 1, height: 0.14, color: "primary" },
+      { type: "text", field: "discount", x: 0.5, y: 0.07, size: 0.06, font: "heading", bold: true, color: "accent", align: "center", baseline: "middle", uppercase: true, prefix: "Sale " },
+      { type: "logo", x: 0.04, y: 0.17, size: 0.1 },
+      { type: "rect", x: 0, y: 0.76, width: 1, height: 0.24, color: "#000000", opacity: 0.55 },
+      { type: "text", field: "productName", x: 0.05, y: 0.79, size: 0.04, font: "heading", bold: true, color: "#ffffff", maxWidth: 0.6, maxLines: 2 },
+      { type: "text", field: "originalPrice", x: 0.95, y: 0.8, size: 0.032, font: "body", color: "#ffffff", align: "right", strikethrough: true },
+      { type: "text", field: "price", x: 0.95, y: 0.86, size: 0.06, font: "heading", bold: true, color: "#ffffff", align: "right" },
+      { type: "text", field: "cta", x: 0.05, y: 0.95, size: 0.028, font: "body", bold: true, color: "accent", background: "primary", baseline: "bottom" },
+    ],
+  },
+  minimal: {
+    id: "minimal",
+    name: "Minimal",
+    description: "Clean photo with a white caption strip",
+    width: 1080,
+    height: 1080,
+    background: "#ffffff",
+    photo: { x: 0, y: 0, width: 1, height: 0.84 },
+    layers: [
+      { type: "text", field: "productName", x: 0.05, y: 0.92, size: 0.036, font: "heading", bold: true, color: "#0f172a", baseline: "middle", maxWidth: 0.6 },
+      { type: "text", field: "price", x: 0.95, y: 0.92, size: 0.044, font: "heading", bold: true, color: "primary", align: "right", baseline: "middle" },
+      { type: "text", field: "businessName", x: 0.95, y: 0.04, size: 0.026, font: "body", bold: true, color: "#ffffff", shadow: true, align: "right" },
+    ],
+  },
+  story: {
+    id: "story",
+    name: "Story 9:16",
+    description: "Full-screen status or story with a call to action",
+    width: 1080,
+    height: 1920,
+    layers: [
+      { type: "rect", x: 0, y: 0.62, width: 1, height: 0.38, color: "#000000", opacity: 0.5 },
+      { type: "logo", x: 0.5, y: 0.04, size: 0.18, align: "center" },
+      { type: "text", field: "businessName", x: 0.5, y: 0.15, size: 0.045, font: "heading", bold: true, color: "#ffffff", shadow: true, align: "center" },
+      { type: "text", field: "productName", x: 0.5, y: 0.66, size: 0.07, font: "heading", bold: true, color: "#ffffff", align: "center", maxWidth: 0.86, maxLines: 2 },
+      { type: "text", field: "price", x: 0.5, y: 0.78, size: 0.07, font: "heading", bold: true, color: "accent", background: "primary", align: "center" },
+      { type: "text", field: "cta", x: 0.5, y: 0.88, size: 0.042, font: "body", bold: true, color: "#ffffff", align: "center", uppercase: true },
+      { type: "text", field: "phone", x: 0.5, y: 0.93, size: 0.036, font: "body", color: "#ffffff", align: "center", prefix: "WhatsApp " },
+    ],
+  },
+  carousel: {
+    id: "carousel",
+    name: "Carousel Slide",
+    description: "4:5 slide with a brand-coloured caption block",
+    width: 1080,
+    height: 1350,
+    layers: [
+      { type: "logo", x: 0.05, y: 0.04, size: 0.1 },
+      { type: "rect", x: 0.05, y: 0.7, width: 0.7, height: 0.25, color: "primary", radius: 0.02 },
+      { type: "text", field: "productName", x: 0.09, y: 0.73, size: 0.05, font: "heading", bold: true, color: "accent", maxWidth: 0.62, maxLines: 2 },
+      { type: "text", field: "price", x: 0.09, y: 0.91, size: 0.055, font: "heading", bold: true, color: "accent", baseline: "bottom" },
+      { type: "text", field: "tagline", x: 0.95, y: 0.06, size: 0.026, font: "body", color: "#ffffff", shadow: true, align: "right", maxWidth: 0.5 },
+    ],
+  },
+  facebookCover: {
+    id: "facebookCover",
+    name: "Facebook Cover",
+    description: "Wide page cover with your brand on the left",
+    width: 1640,
+    height: 624,
+    layers: [
+      { type: "rect", x: 0, y: 0, width: 0.42, height: 1, color: "primary", opacity: 0.9 },
+      { type: "logo", x: 0.04, y: 0.1, size: 0.08 },
+      { type: "text", field: "businessName", x: 0.04, y: 0.42, size: 0.036, font: "heading", bold: true, color: "accent", maxWidth: 0.34 },
+      { type: "text", field: "tagline", x: 0.04, y: 0.56, size: 0.018, font: "body", color: "accent", maxWidth: 0.34, maxLines: 2 },
+      { type: "text", field: "phone", x: 0.04, y: 0.9, size: 0.018, font: "body", bold: true, color: "accent", baseline: "bottom", prefix: "WhatsApp " },
+    ],
+  },
+  marketplace: {
+    id: "marketplace",
+    name: "Marketplace White",
+    description: "Whole product on plain white, with a small logo",
+    width: 1080,
+    height: 1080,
+    background: "#ffffff",
+    photo: { x: 0.06, y: 0.06, width: 0.88, height: 0.88 },
+    photoFit: "contain",
+    layers: [
+      { type: "logo", x: 0.03, y: 0.03, size: 0.08 },
+    ],
+  },
+};
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = "priceBadge";
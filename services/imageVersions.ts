@@ -0,0 +1,60 @@
+import { ImageVersion, ImageVersionTree } from "../types";
+import { createId } from "./db";
+
+// Pure helpers for the tree of generated photos. Every edit becomes a child of the
+// version that was showing, so going back and editing again starts a new branch.
+
+export const createVersionTree = (): ImageVersionTree => ({ versions: {}, currentId: null, redoIds: [] });
+
+export const getCurrentVersion = (tree: ImageVersionTree): ImageVersion | null =>
+  tree.currentId ? tree.versions[tree.currentId] ?? null : null;
+
+export const getParentVersion = (tree: ImageVersionTree, version: ImageVersion | null): ImageVersion | null =>
+  version?.parentId ? tree.versions[version.parentId] ?? null : null;
+
+export const addVersion = (tree: ImageVersionTree, imageUrl: string, prompt: string): ImageVersionTree => {
+  const version: ImageVersion = {
+    id: createId(),
+    parentId: tree.currentId,
+    imageUrl,
+    prompt,
+    createdAt: Date.now(),
+  };
+  return { versions: { ...tree.versions, [version.id]: version }, currentId: version.id, redoIds: [] };
+};
+
+// Jumping to any version is the starting point for a new branch
+export const selectVersion = (tree: ImageVersionTree, id: string): ImageVersionTree =>
+  tree.versions[id] && id !== tree.currentId ? { ...tree, currentId: id, redoIds: [] } : tree;
+
+export const canUndo = (tree: ImageVersionTree): boolean => Boolean(getCurrentVersion(tree)?.parentId);
+
+export const canRedo = (tree: ImageVersionTree): boolean => tree.redoIds.length > 0;
+
+// Undo steps up to the parent; redo walks back down the same path
+export const undo = (tree: ImageVersionTree): ImageVersionTree => {
+  const current = getCurrentVersion(tree);
+  if (!current?.parentId) return tree;
+  return { ...tree, currentId: current.parentId, redoIds: [current.id, ...tree.redoIds] };
+};
+
+export const redo = (tree: ImageVersionTree): ImageVersionTree => {
+  const [next, ...rest] = tree.redoIds;
+  if (!next || !tree.versions[next]) return tree;
+  return { ...tree, currentId: next, redoIds: rest };
+};
+
+// Depth-first order so each branch follows the version it came from; numbers are by age
+export const flattenVersions = (tree: ImageVersionTree): { version: ImageVersion; number: number }[] => {
+  const all = Object.values(tree.versions).sort((a, b) => a.createdAt - b.createdAt);
+  const numbers = new Map(all.map((version, i) => [version.id, i + 1]));
+
+  const result: { version: ImageVersion; number: number }[] = [];
+  const visit = (version: ImageVersion) => {
+    result.push({ version, number: numbers.get(version.id)! });
+    all.filter(child => child.parentId === version.id).forEach(visit);
+  };
+  // Versions whose parent was lost are treated as roots
+  all.filter(version => !version.parentId || !tree.versions[version.parentId]).forEach(visit);
+  return result;
+};
@@ -0,0 +1,57 @@
+import { LanguageCode } from "../types";
+
+export interface LanguageOption {
+  code: LanguageCode;
+  // Label in English for the picker, and how the language names itself
+  label: string;
+  nativeName: string;
+  // Extra guidance for the model beyond the language name
+  promptNotes: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageOption> = {
+  en: {
+    code: "en",
+    label: "English",
+    nativeName: "English",
+    promptNotes: "Use clear, simple English that reads well on a phone.",
+  },
+  pcm: {
+    code: "pcm",
+    label: "Nigerian Pidgin",
+    nativeName: "Naijá",
+    promptNotes: "Write natural Nigerian Pidgin the way sellers chat with customers on WhatsApp. Keep it respectful and easy to read.",
+  },
+  yo: {
+    code: "yo",
+    label: "Yoruba",
+    nativeName: "Yorùbá",
+    promptNotes: "Write standard Yoruba with correct tone marks. Product and brand names can stay in English.",
+  },
+  ha: {
+    code: "ha",
+    label: "Hausa",
+    nativeName: "Hausa",
+    promptNotes: "Write standard Hausa in Latin script (Boko). Product and brand names can stay in English.",
+  },
+  ig: {
+    code: "ig",
+    label: "Igbo",
+    nativeName: "Igbo",
+    promptNotes: "Write standard Igbo with correct diacritics. Product and brand names can stay in English.",
+  },
+  fr: {
+    code: "fr",
+    label: "French",
+    nativeName: "Français",
+    promptNotes: "Write natural West African French suitable for francophone shoppers.",
+  },
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+// Sentence appended to prompts so every text field comes back in the chosen language
+export const languageInstruction = (code: LanguageCode): string => {
+  const language = LANGUAGES[code];
+  return `Write every text field in ${language.label} (${language.nativeName}). ${language.promptNotes} Hashtags may mix ${language.label} and English if that is how shoppers search.`;
+};
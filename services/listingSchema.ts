@@ -0,0 +1,268 @@
+import { Schema, Type } from "@google/genai";
+import { CaptionLength, GeneratedProductContent, GenerationSettings, MarketProfile } from "../types";
+import { CAPTION_LENGTHS, DEFAULT_GENERATION_SETTINGS, PLATFORMS } from "./generationSettings";
+import { quoteUserText } from "./prompts";
+
+// The listing schema is defined once here: it is sent to the model as the response schema
+// and the same object drives validation and clean-up of whatever comes back.
+
+export const LIST_LIMITS = {
+  seoKeywords: { min: 5, max: 8 },
+  hashtags: { min: 10, max: 15 },
+};
+
+// Characters; long text is cut at a word boundary rather than rejected
+export const TEXT_LIMITS = {
+  productName: 80,
+  shortDescription: 400,
+  longDescription: 2000,
+  socialMediaPost: 1000,
+  targetAudience: 300,
+};
+
+// The social media post's limit follows the caption length setting
+export const CAPTION_LIMITS: Record<CaptionLength, number> = {
+  short: 280,
+  medium: 600,
+  long: TEXT_LIMITS.socialMediaPost,
+};
+
+const STREAM_ORDER: (keyof GeneratedProductContent)[] = [
+  "productName",
+  "socialMediaPost",
+  "shortDescription",
+  "longDescription",
+  "suggestedPrice",
+  "seoKeywords",
+  "hashtags",
+  "targetAudience",
+];
+
+// One caption per uploaded photo, asked for only when there are photos
+const buildPhotoNotesSchema = (photoCount: number): Schema => ({
+  type: Type.ARRAY,
+  description: `Exactly ${photoCount} entries, one per product photo in the order given.`,
+  minItems: String(photoCount),
+  maxItems: String(photoCount),
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      caption: {
+        type: Type.STRING,
+        description: "A short caption saying what this photo shows, e.g. \"Side view showing the zip pocket\".",
+        maxLength: "120"
+      },
+      altText: {
+        type: Type.STRING,
+        description: "Plain, descriptive alt text for screen readers and marketplace image SEO, under 125 characters.",
+        maxLength: "125"
+      }
+    },
+    required: ["caption", "altText"]
+  }
+});
+
+// Schema definition for structured JSON output; currency wording follows the market and
+// the caption's length and platform follow the generation settings
+export const buildListingSchema = (
+  market: MarketProfile,
+  photoCount: number = 0,
+  settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS
+): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    productName: {
+      type: Type.STRING,
+      description: "A professional, catchy, and clean name for the product.",
+      maxLength: String(TEXT_LIMITS.productName)
+    },
+    socialMediaPost: {
+      type: Type.STRING,
+      description: `${PLATFORMS[settings.platform].caption} Length: ${CAPTION_LENGTHS[settings.captionLength].guide}.`,
+      maxLength: String(CAPTION_LIMITS[settings.captionLength])
+    },
+    shortDescription: {
+      type: Type.STRING,
+      description: "A 2-3 sentence engaging description suitable for social media captions.",
+      maxLength: String(TEXT_LIMITS.shortDescription)
+    },
+    longDescription: {
+      type: Type.STRING,
+      description: "A detailed paragraph highlighting features, benefits, and use cases.",
+      maxLength: String(TEXT_LIMITS.longDescription)
+    },
+    suggestedPrice: {
+      type: Type.OBJECT,
+      description: `A suggested price in ${market.currencyName} (${market.currencySymbol}) based on ${market.benchmarkMarketplace} market rates.`,
+      properties: {
+        min: {
+          type: Type.NUMBER,
+          description: `Lower end of the market price range in ${market.currency}, as a plain number without currency symbols.`
+        },
+        max: {
+          type: Type.NUMBER,
+          description: `Upper end of the market price range in ${market.currency}, as a plain number.`
+        },
+        recommended: {
+          type: Type.NUMBER,
+          description: "The single price we recommend listing at, between min and max."
+        },
+        currency: {
+          type: Type.STRING,
+          enum: [market.currency],
+          description: "ISO 4217 currency code."
+        },
+        rationale: {
+          type: Type.STRING,
+          description: `One sentence explaining the price with reference to comparable ${market.benchmarkMarketplace} listings.`
+        }
+      },
+      required: ["min", "max", "recommended", "currency", "rationale"]
+    },
+    seoKeywords: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: `Top ${LIST_LIMITS.seoKeywords.min}-${LIST_LIMITS.seoKeywords.max} distinct SEO keywords for search visibility.`,
+      minItems: String(LIST_LIMITS.seoKeywords.min),
+      maxItems: String(LIST_LIMITS.seoKeywords.max)
+    },
+    hashtags: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: `${LIST_LIMITS.hashtags.min}-${LIST_LIMITS.hashtags.max} distinct, relevant and trending hashtags for Instagram/TikTok, each starting with a single #.`,
+      minItems: String(LIST_LIMITS.hashtags.min),
+      maxItems: String(LIST_LIMITS.hashtags.max)
+    },
+    targetAudience: {
+      type: Type.STRING,
+      description: settings.audience.trim()
+        ? `Who this product is for. The seller is targeting ${quoteUserText(settings.audience, 200)}; describe that audience in a sentence.`
+        : "Brief description of who this product is for.",
+      maxLength: String(TEXT_LIMITS.targetAudience)
+    },
+    ...(photoCount > 0 ? { photos: buildPhotoNotesSchema(photoCount) } : {})
+  },
+  // Streamed output arrives in this order, so the name and caption show up first
+  propertyOrdering: [...STREAM_ORDER, ...(photoCount > 0 ? ["photos"] : [])],
+  required: [
+    ...(photoCount > 0 ? ["photos"] : []),
+    "productName",
+    "shortDescription",
+    "longDescription",
+    "suggestedPrice",
+    "seoKeywords",
+    "hashtags",
+    "socialMediaPost",
+    "targetAudience"
+  ]
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Cuts at a word boundary and marks the cut with an ellipsis
+export const truncate = (text: string, maxLength: number): string => {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:-]+$/, "") + "…";
+};
+
+// "##Ankara Style" and "ankara" both become "#AnkaraStyle" / "#ankara"
+const cleanHashtag = (tag: string): string => `#${tag.replace(/^#+/, "").replace(/\s+/g, "")}`;
+
+// Field-specific clean-up the schema can't express
+const FIELD_CLEANERS: Partial<Record<keyof GeneratedProductContent, (value: unknown) => unknown>> = {
+  hashtags: value => (Array.isArray(value) ? value.map(tag => (typeof tag === "string" ? cleanHashtag(tag) : tag)) : value),
+};
+
+// Trims strings, drops duplicate and empty list entries, and cuts text and lists to the schema's maxima.
+// Numbers sent as strings are left for the price parser.
+export const normalizeToSchema = (value: unknown, schema: Schema): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!isPlainObject(value)) return value;
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        if (!(key in value)) continue;
+        const cleaner = FIELD_CLEANERS[key as keyof GeneratedProductContent];
+        result[key] = normalizeToSchema(cleaner ? cleaner(value[key]) : value[key], child);
+      }
+      return result;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return value;
+      const items = value.map(item => normalizeToSchema(item, schema.items || {}));
+      // Positional lists (one entry per photo) keep every entry; string lists are de-duplicated
+      const seen = new Set<string>();
+      const unique = schema.items?.type === Type.STRING
+        ? items.filter(item => {
+            if (typeof item !== "string") return true;
+            const key = item.toLowerCase();
+            if (!item || item === "#" || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+          })
+        : items;
+      return schema.maxItems ? unique.slice(0, Number(schema.maxItems)) : unique;
+    }
+    case Type.STRING:
+      if (typeof value !== "string") return value;
+      return schema.maxLength ? truncate(value.trim(), Number(schema.maxLength)) : value.trim();
+    default:
+      return value;
+  }
+};
+
+// Lists what is wrong with a value against a schema, e.g. 'hashtags: expected at least 10 items, got 4'
+export const validateAgainstSchema = (value: unknown, schema: Schema, path: string = "response"): string[] => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!isPlainObject(value)) return [`${path}: expected an object`];
+      const missing = (schema.required || []).filter(key => value[key] === undefined || value[key] === null);
+      return [
+        ...missing.map(key => `${path === "response" ? key : `${path}.${key}`}: missing`),
+        ...Object.entries(schema.properties || {})
+          .filter(([key]) => value[key] !== undefined && value[key] !== null)
+          .flatMap(([key, child]) => validateAgainstSchema(value[key], child, path === "response" ? key : `${path}.${key}`)),
+      ];
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [`${path}: expected a list`];
+      const problems = value.flatMap((item, i) => validateAgainstSchema(item, schema.items || {}, `${path}[${i}]`));
+      if (schema.minItems && value.length < Number(schema.minItems)) {
+        problems.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+      }
+      return problems;
+    }
+    case Type.STRING:
+      if (typeof value !== "string") return [`${path}: expected text`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: expected one of ${schema.enum.join(", ")}`];
+      return value ? [] : [`${path}: empty`];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      // The price parser accepts "15000" and "₦15,000" as well
+      return typeof value === "number" || typeof value === "string" ? [] : [`${path}: expected a number`];
+    case Type.BOOLEAN:
+      return typeof value === "boolean" ? [] : [`${path}: expected true or false`];
+    default:
+      return [];
+  }
+};
+
+export interface SchemaCheck {
+  value: unknown;
+  problems: string[];
+}
+
+// Parses model text, cleans it up and reports what is still wrong
+export const checkAgainstSchema = (text: string, schema: Schema): SchemaCheck => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { value: null, problems: ["response: not valid JSON"] };
+  }
+  const value = normalizeToSchema(parsed, schema);
+  return { value, problems: validateAgainstSchema(value, schema) };
+};
@@ -0,0 +1,256 @@
+import { SavedListing } from "../types";
+import { downloadCsv } from "./csv";
+import { getMarketByCurrency } from "./markets";
+import { buildClickToChatUrl, buildOrderMessage, toWhatsAppNumber } from "./whatsapp";
+import { formatPrice } from "./pricing";
+
+export type ExportTarget = "jumia" | "jiji" | "shopify" | "woocommerce" | "whatsapp";
+
+// Everything an export needs from a listing; the open (maybe unsaved) listing fits too
+export type ExportSource = Pick<SavedListing, "data" | "customPrice" | "branding" | "photos"> & { id?: string };
+
+// Values the model cannot know, asked once per export
+export interface ExportOptions {
+  category: string;
+  region: string;
+  brand: string;
+  condition: "New" | "Used";
+  // Where the photos are hosted; catalogs need real image URLs, not file names
+  imageBaseUrl: string;
+}
+
+export type ExportOptionKey = keyof ExportOptions;
+
+interface ExportColumn {
+  header: string;
+  required?: boolean;
+  // Shown instead of the generic "is required" when the fix lives elsewhere
+  missingMessage?: string;
+  value: (source: ExportSource, options: ExportOptions) => string;
+}
+
+interface ExportFormat {
+  label: string;
+  fileName: string;
+  // Options the seller has to fill in for this target
+  options: ExportOptionKey[];
+  columns: ExportColumn[];
+}
+
+export interface ExportIssue {
+  productName: string;
+  message: string;
+}
+
+const slugify = (value: string): string =>
+  value.toLowerCase().normalize("NFKD").replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+// Importers expect a bare number in the listing's currency, never a formatted "₦15,000"
+const priceOf = (source: ExportSource): string => {
+  const amount = source.customPrice ?? source.data.suggestedPrice.recommended;
+  return amount > 0 ? String(Math.round(amount)) : "";
+};
+
+export const skuOf = (source: ExportSource): string =>
+  source.id ? `MA-${source.id.replace(/-/g, "").slice(0, 8).toUpperCase()}` : `MA-${slugify(source.data.productName).slice(0, 20).toUpperCase()}`;
+
+// Marketplaces can't read local photos, so the file name tells the seller which upload goes where
+const imageOf = (source: ExportSource): string => source.photos[0]?.file.name || "";
+
+// The whole gallery, cover first, for importers that take a comma-separated list
+const galleryOf = (source: ExportSource): string =>
+  source.photos.map(photo => photo.file.name).join(", ");
+
+const altTextOf = (source: ExportSource): string =>
+  source.photos[0]?.altText || source.data.productName;
+
+// Meta catalogs want the amount and ISO currency, e.g. "15000 NGN"
+const catalogPriceOf = (source: ExportSource): string => {
+  const price = priceOf(source);
+  return price ? `${price} ${source.data.suggestedPrice.currency}` : "";
+};
+
+const imageUrlOf = (fileName: string, options: ExportOptions): string => {
+  const base = options.imageBaseUrl.trim().replace(/\/+$/, "");
+  return base && fileName ? `${base}/${encodeURIComponent(fileName)}` : "";
+};
+
+// Importers that fetch photos themselves get hosted URLs, or nothing when no address is set
+const galleryUrlsOf = (source: ExportSource, options: ExportOptions): string =>
+  source.photos.map(photo => imageUrlOf(photo.file.name, options)).filter(Boolean).join(", ");
+
+// Shopify merges rows that share a handle into one product, so listings with the same name need the SKU
+const handleOf = (source: ExportSource): string => `${slugify(source.data.productName)}-${slugify(skuOf(source))}`;
+
+// WhatsApp catalog items link to a chat with the seller, prefilled with an order for this item
+const orderLinkOf = (source: ExportSource): string => {
+  const market = getMarketByCurrency(source.data.suggestedPrice.currency);
+  const number = market ? toWhatsAppNumber(source.branding.whatsappNumber, market.dialingCode) : "";
+  if (!number) return "";
+  const amount = source.customPrice ?? source.data.suggestedPrice.recommended;
+  return buildClickToChatUrl(number, buildOrderMessage({
+    productName: source.data.productName,
+    price: formatPrice(amount, source.data.suggestedPrice.currency),
+    businessName: source.branding.businessName,
+    reference: skuOf(source),
+  }));
+};
+
+const brandOf = (source: ExportSource, options: ExportOptions): string =>
+  options.brand || source.branding.businessName || "Generic";
+
+const tagsOf = (source: ExportSource): string =>
+  source.data.hashtags.map(tag => tag.replace(/^#+/, "")).join(", ");
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const paragraphsToHtml = (text: string): string =>
+  text.split(/\n{2,}/).map(paragraph => `<p>${escapeHtml(paragraph.trim())}</p>`).join("");
+
+export const EXPORT_FORMATS: Record<ExportTarget, ExportFormat> = {
+  jumia: {
+    label: "Jumia Seller Center",
+    fileName: "jumia-products.csv",
+    options: ["category", "brand"],
+    columns: [
+      { header: "SellerSku", required: true, value: skuOf },
+      { header: "Name", required: true, value: s => s.data.productName },
+      { header: "Brand", required: true, value: brandOf },
+      { header: "PrimaryCategory", required: true, value: (_, o) => o.category },
+      { header: "Description", required: true, value: s => s.data.longDescription },
+      { header: "ShortDescription", value: s => s.data.shortDescription },
+      { header: "Price", required: true, value: priceOf },
+      { header: "Quantity", value: () => "1" },
+      { header: "MainImage", required: true, value: imageOf },
+      // Jumia takes up to seven extra photos in numbered columns
+      ...[2, 3, 4, 5, 6, 7, 8].map(n => ({
+        header: `Image${n}`,
+        value: (s: ExportSource) => s.photos[n - 1]?.file.name || "",
+      })),
+    ],
+  },
+  jiji: {
+    label: "Jiji",
+    fileName: "jiji-ads.csv",
+    options: ["category", "region", "condition"],
+    columns: [
+      { header: "Title", required: true, value: s => s.data.productName },
+      { header: "Category", required: true, value: (_, o) => o.category },
+      { header: "Region", required: true, value: (_, o) => o.region },
+      { header: "Price", required: true, value: priceOf },
+      { header: "Condition", required: true, value: (_, o) => o.condition },
+      { header: "Description", required: true, value: s => s.data.longDescription },
+      { header: "Brand", value: brandOf },
+      { header: "Images", value: galleryOf },
+    ],
+  },
+  shopify: {
+    label: "Shopify CSV",
+    fileName: "shopify-products.csv",
+    options: ["category", "brand", "imageBaseUrl"],
+    columns: [
+      { header: "Handle", required: true, value: handleOf },
+      { header: "Title", required: true, value: s => s.data.productName },
+      { header: "Body (HTML)", value: s => paragraphsToHtml(s.data.longDescription) },
+      { header: "Vendor", value: brandOf },
+      { header: "Type", value: (_, o) => o.category },
+      { header: "Tags", value: tagsOf },
+      { header: "Published", value: () => "TRUE" },
+      { header: "Option1 Name", value: () => "Title" },
+      { header: "Option1 Value", value: () => "Default Title" },
+      { header: "Variant SKU", value: skuOf },
+      { header: "Variant Price", required: true, value: priceOf },
+      { header: "Variant Inventory Policy", value: () => "deny" },
+      { header: "Variant Fulfillment Service", value: () => "manual" },
+      { header: "Image Src", value: (s, o) => imageUrlOf(imageOf(s), o) },
+      { header: "Image Alt Text", value: altTextOf },
+      { header: "SEO Title", value: s => s.data.productName },
+      { header: "SEO Description", value: s => s.data.shortDescription },
+      { header: "Status", value: () => "draft" },
+    ],
+  },
+  woocommerce: {
+    label: "WooCommerce CSV",
+    fileName: "woocommerce-products.csv",
+    options: ["category", "imageBaseUrl"],
+    columns: [
+      { header: "Type", required: true, value: () => "simple" },
+      { header: "SKU", value: skuOf },
+      { header: "Name", required: true, value: s => s.data.productName },
+      { header: "Published", value: () => "1" },
+      { header: "Visibility in catalog", value: () => "visible" },
+      { header: "Short description", value: s => s.data.shortDescription },
+      { header: "Description", value: s => paragraphsToHtml(s.data.longDescription) },
+      { header: "Regular price", required: true, value: priceOf },
+      { header: "Categories", value: (_, o) => o.category },
+      { header: "Tags", value: tagsOf },
+      { header: "Images", value: galleryUrlsOf },
+      { header: "In stock?", value: () => "1" },
+    ],
+  },
+  // Commerce Manager data feed, which is what WhatsApp Business catalogs import
+  whatsapp: {
+    label: "WhatsApp Business catalog",
+    fileName: "whatsapp-catalog.csv",
+    options: ["imageBaseUrl", "brand", "condition", "category"],
+    columns: [
+      { header: "id", required: true, value: skuOf },
+      { header: "title", required: true, value: s => s.data.productName.slice(0, 150) },
+      { header: "description", required: true, value: s => s.data.longDescription || s.data.shortDescription },
+      { header: "availability", required: true, value: () => "in stock" },
+      { header: "condition", required: true, value: (_, o) => o.condition.toLowerCase() },
+      { header: "price", required: true, value: catalogPriceOf },
+      {
+        header: "link",
+        required: true,
+        missingMessage: "Add a WhatsApp number to the brand kit for the order link",
+        value: orderLinkOf,
+      },
+      {
+        header: "image_link",
+        required: true,
+        missingMessage: "Add the web address where your photos are hosted",
+        value: (s, o) => imageUrlOf(imageOf(s), o),
+      },
+      { header: "additional_image_link", value: (s, o) => s.photos.slice(1).map(photo => imageUrlOf(photo.file.name, o)).filter(Boolean).join(",") },
+      { header: "brand", required: true, value: brandOf },
+      { header: "google_product_category", value: (_, o) => o.category },
+    ],
+  },
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  category: "",
+  region: "",
+  brand: "",
+  condition: "New",
+  imageBaseUrl: "",
+};
+
+export const buildExportRows = (target: ExportTarget, sources: ExportSource[], options: ExportOptions): string[][] => {
+  const { columns } = EXPORT_FORMATS[target];
+  return [
+    columns.map(column => column.header),
+    ...sources.map(source => columns.map(column => column.value(source, options).trim())),
+  ];
+};
+
+// Lists every required column left empty, per listing
+export const validateExport = (target: ExportTarget, sources: ExportSource[], options: ExportOptions): ExportIssue[] => {
+  const { columns } = EXPORT_FORMATS[target];
+  const issues: ExportIssue[] = [];
+
+  for (const source of sources) {
+    for (const column of columns) {
+      if (column.required && !column.value(source, options).trim()) {
+        issues.push({ productName: source.data.productName, message: column.missingMessage ?? `"${column.header}" is required` });
+      }
+    }
+  }
+  return issues;
+};
+
+export const downloadExport = (target: ExportTarget, sources: ExportSource[], options: ExportOptions) => {
+  downloadCsv(EXPORT_FORMATS[target].fileName, buildExportRows(target, sources, options));
+};
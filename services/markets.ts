@@ -0,0 +1,67 @@
+import { MarketId, MarketProfile } from "../types";
+
+export const MARKETS: Record<MarketId, MarketProfile> = {
+  NG: {
+    id: "NG",
+    country: "Nigeria",
+    demonym: "Nigerian",
+    currency: "NGN",
+    currencySymbol: "₦",
+    currencyName: "Nigerian Naira",
+    locale: "en-NG",
+    dialingCode: "234",
+    benchmarkMarketplace: "Jumia Nigeria",
+    toneNotes: "Warm, confident and aspirational. Light Nigerian expressions are welcome in social captions, but keep descriptions professional. Mention fast delivery within Lagos and Abuja where it fits.",
+  },
+  GH: {
+    id: "GH",
+    country: "Ghana",
+    demonym: "Ghanaian",
+    currency: "GHS",
+    currencySymbol: "GH₵",
+    currencyName: "Ghanaian Cedi",
+    locale: "en-GH",
+    dialingCode: "233",
+    benchmarkMarketplace: "Jumia Ghana and Tonaton",
+    toneNotes: "Friendly and respectful. Ghanaian shoppers value durability and value for money. Mention delivery across Accra and Kumasi and Mobile Money payment where it fits.",
+  },
+  KE: {
+    id: "KE",
+    country: "Kenya",
+    demonym: "Kenyan",
+    currency: "KES",
+    currencySymbol: "KSh",
+    currencyName: "Kenyan Shilling",
+    locale: "en-KE",
+    dialingCode: "254",
+    benchmarkMarketplace: "Jumia Kenya and Kilimall",
+    toneNotes: "Upbeat and practical. Kenyan shoppers respond to M-Pesa payment and same-day delivery in Nairobi. Light Sheng is fine in social captions only.",
+  },
+};
+
+export const DEFAULT_MARKET_ID: MarketId = "NG";
+
+const STORAGE_KEY = "merchant-ai:market";
+
+export const getMarket = (id: MarketId | undefined): MarketProfile => MARKETS[id ?? DEFAULT_MARKET_ID] ?? MARKETS[DEFAULT_MARKET_ID];
+
+export const getMarketByCurrency = (currency: string): MarketProfile | undefined =>
+  Object.values(MARKETS).find(market => market.currency === currency);
+
+// Remembers the seller's market between visits
+export const loadPreferredMarketId = (): MarketId => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && stored in MARKETS ? (stored as MarketId) : DEFAULT_MARKET_ID;
+  } catch {
+    return DEFAULT_MARKET_ID;
+  }
+};
+
+export const savePreferredMarketId = (id: MarketId) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Private browsing can block storage; the choice just won't persist
+  }
+};
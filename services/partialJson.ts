@@ -0,0 +1,90 @@
+// Best-effort parse of a JSON document that is still arriving, e.g. '{"name": "Ank'.
+// Complete values are kept, a string still being written is kept as far as it goes,
+// and half-written keys, numbers and literals are dropped until they finish.
+
+interface Frame {
+  closer: "}" | "]";
+  // In objects: the next string is a key rather than a value
+  expectKey: boolean;
+}
+
+const closersFor = (stack: Frame[]) => stack.map(frame => frame.closer).reverse().join("");
+
+export const parsePartialJson = (text: string): unknown => {
+  const stack: Frame[] = [];
+  let safeText = "";
+  let inString = false;
+  let stringIsKey = false;
+  let stringStart = 0;
+  let escaped = false;
+  let tokenStart = -1;
+
+  const markSafe = (end: number) => {
+    safeText = text.slice(0, end) + closersFor(stack);
+  };
+
+  // Numbers and true/false/null are only kept once something follows them
+  const endToken = (end: number) => {
+    if (tokenStart < 0) return;
+    tokenStart = -1;
+    markSafe(end);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') {
+        inString = false;
+        if (!stringIsKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    switch (char) {
+      case '"':
+        endToken(i);
+        inString = true;
+        stringStart = i;
+        stringIsKey = top?.closer === "}" && top.expectKey;
+        break;
+      case "{":
+      case "[":
+        stack.push({ closer: char === "{" ? "}" : "]", expectKey: char === "{" });
+        markSafe(i + 1);
+        break;
+      case "}":
+      case "]":
+        endToken(i);
+        stack.pop();
+        markSafe(i + 1);
+        break;
+      case ":":
+        if (top) top.expectKey = false;
+        break;
+      case ",":
+        endToken(i);
+        if (top?.closer === "}") top.expectKey = true;
+        break;
+      default:
+        if (/\s/.test(char)) endToken(i);
+        else if (tokenStart < 0) tokenStart = i;
+    }
+  }
+
+  // A value string cut off mid-way: close it, dropping a dangling escape sequence
+  if (inString && !stringIsKey) {
+    const partial = text.slice(stringStart).replace(/\\(u[0-9a-fA-F]{0,3})?$/, "");
+    safeText = text.slice(0, stringStart) + partial + '"' + closersFor(stack);
+  }
+
+  if (!safeText) return null;
+  try {
+    return JSON.parse(safeText);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,77 @@
+import { ScheduledPost } from "../types";
+import { CHANNELS, getScheduledPosts, saveScheduledPost } from "./contentCalendar";
+import { getListing } from "./historyStore";
+
+export type ReminderPermission = NotificationPermission | "unsupported";
+
+// Reminders only fire while the app is open in a tab; the ICS export covers the rest
+export const REMINDER_CHECK_MS = 30_000;
+
+// A reminder missed by more than this (tab closed at the time) is dropped rather than shown late
+const STALE_AFTER_MS = 60 * 60 * 1000;
+// Furthest ahead a reminder can be set (REMINDER_OPTIONS tops out at a day)
+const MAX_LEAD_MS = 24 * 60 * 60 * 1000;
+// public/sw.js
+const SERVICE_WORKER_URL = "/sw.js";
+
+export const getReminderPermission = (): ReminderPermission =>
+  typeof Notification === "undefined" ? "unsupported" : Notification.permission;
+
+export const requestReminderPermission = async (): Promise<ReminderPermission> => {
+  if (typeof Notification === "undefined") return "unsupported";
+  const permission = await Notification.requestPermission();
+  // Registered up front so the first reminder doesn't wait for the worker to install
+  if (permission === "granted") getRegistration();
+  return permission;
+};
+
+// Android Chrome only shows notifications through a service worker registration
+const getRegistration = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!("serviceWorker" in navigator)) return null;
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    return await navigator.serviceWorker.ready;
+  } catch (err) {
+    console.error("Service worker registration error:", err);
+    return null;
+  }
+};
+
+export const isReminderDue = (post: ScheduledPost, now: number): boolean =>
+  post.reminderMinutes !== null &&
+  !post.posted &&
+  post.remindedAt === null &&
+  now >= post.scheduledAt - post.reminderMinutes * 60_000 &&
+  now - post.scheduledAt <= STALE_AFTER_MS;
+
+const showReminder = async (post: ScheduledPost, productName: string) => {
+  const time = new Date(post.scheduledAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+  const title = `${CHANNELS[post.channel].label} post at ${time}`;
+  const options: NotificationOptions = {
+    body: `${productName}\n${post.caption.slice(0, 120)}`,
+    // Replaces rather than stacks if two tabs show the same reminder
+    tag: post.id,
+  };
+
+  const registration = await getRegistration();
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    // Desktop browsers without service workers, e.g. some private windows
+    new Notification(title, options);
+  }
+};
+
+// Shows every reminder that has come due and marks it, so each one shows once
+export const notifyDueReminders = async (now: number = Date.now()): Promise<void> => {
+  if (getReminderPermission() !== "granted") return;
+
+  const posts = await getScheduledPosts(now - STALE_AFTER_MS, now + MAX_LEAD_MS + 1);
+  for (const post of posts.filter(candidate => isReminderDue(candidate, now))) {
+    const listing = await getListing(post.listingId);
+    // Marked either way: a reminder that can't be shown would otherwise fail again every check
+    await showReminder(post, listing?.data.productName ?? "Scheduled post")
+      .catch(err => console.error("Reminder notification error:", err));
+    await saveScheduledPost({ ...post, remindedAt: now });
+  }
+};
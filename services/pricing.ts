@@ -0,0 +1,95 @@
+import { PriceSuggestion } from "../types";
+import { getMarketByCurrency } from "./markets";
+
+const DEFAULT_CURRENCY = "NGN";
+
+// Formats each currency the way shoppers in its market read it
+const localeFor = (currency: string): string | undefined => getMarketByCurrency(currency)?.locale;
+
+const toAmount = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value === "string") {
+    const parsed = Number(value.replace(/[^0-9.]/g, ""));
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+  }
+  return null;
+};
+
+// Older listings stored the price as text like "₦15,000 - ₦20,000"
+const parseLegacyPrice = (text: string, currency: string): PriceSuggestion | null => {
+  const amounts = (text.replace(/,/g, "").match(/\d+(\.\d+)?/g) || []).map(Number).filter(n => n > 0);
+  if (amounts.length === 0) return null;
+
+  const min = Math.min(...amounts);
+  const max = Math.max(...amounts);
+  return {
+    min,
+    max,
+    recommended: Math.round((min + max) / 2),
+    currency,
+    rationale: "",
+  };
+};
+
+// Validates and normalises model output into a PriceSuggestion; null when unusable
+export const parsePriceSuggestion = (raw: unknown, fallbackCurrency: string = DEFAULT_CURRENCY): PriceSuggestion | null => {
+  if (typeof raw === "string") return parseLegacyPrice(raw, fallbackCurrency);
+  if (!raw || typeof raw !== "object") return null;
+
+  const value = raw as Record<string, unknown>;
+  const recommendedAmount = toAmount(value.recommended);
+  const bounds = [toAmount(value.min), toAmount(value.max)].filter((amount): amount is number => amount !== null);
+  if (bounds.length === 0 && recommendedAmount === null) return null;
+  if (bounds.length === 0) bounds.push(recommendedAmount!);
+
+  // Models occasionally swap min and max, or put the recommendation outside the range
+  const min = Math.min(...bounds);
+  const max = Math.max(...bounds);
+  const recommended = recommendedAmount ?? Math.round((min + max) / 2);
+
+  const currency = typeof value.currency === "string" && /^[A-Za-z]{3}$/.test(value.currency.trim())
+    ? value.currency.trim().toUpperCase()
+    : fallbackCurrency;
+
+  return {
+    min,
+    max,
+    recommended: Math.min(max, Math.max(min, recommended)),
+    currency,
+    rationale: typeof value.rationale === "string" ? value.rationale.trim() : "",
+  };
+};
+
+export const formatPrice = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(localeFor(currency), {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    // Unknown currency code: fall back to a plain grouped number
+    return `${currency} ${Math.round(amount).toLocaleString()}`;
+  }
+};
+
+// Grouped number without the symbol, for the editable price field
+export const formatAmount = (amount: number, currency: string): string =>
+  new Intl.NumberFormat(localeFor(currency), { maximumFractionDigits: 0 }).format(amount);
+
+export const formatPriceRange = (price: PriceSuggestion): string =>
+  price.min === price.max
+    ? formatPrice(price.min, price.currency)
+    : `${formatPrice(price.min, price.currency)} – ${formatPrice(price.max, price.currency)}`;
+
+// Symbol shown next to the editable price, e.g. "₦"
+export const getCurrencySymbol = (currency: string): string => {
+  const market = getMarketByCurrency(currency);
+  if (market) return market.currencySymbol;
+  try {
+    const parts = new Intl.NumberFormat(localeFor(currency), { style: "currency", currency }).formatToParts(0);
+    return parts.find(part => part.type === "currency")?.value || currency;
+  } catch {
+    return currency;
+  }
+};
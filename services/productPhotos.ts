@@ -0,0 +1,62 @@
+import { ProductPhoto } from "../types";
+import { createId } from "./db";
+import { preprocessImage } from "./imagePreprocess";
+
+// Front, back, detail and label shots, plus a few spares
+export const MAX_PHOTOS = 8;
+
+export const createProductPhoto = (file: File): ProductPhoto => ({
+  id: createId(),
+  file,
+  caption: "",
+  altText: "",
+});
+
+// Photos that could not be read are reported by name instead of failing the whole drop
+export interface PreparedPhotos {
+  photos: ProductPhoto[];
+  errors: string[];
+}
+
+// Runs one file at a time so a handful of 12 MB phone photos never sit decoded in memory together
+export const preparePhotos = async (files: File[]): Promise<PreparedPhotos> => {
+  const prepared: PreparedPhotos = { photos: [], errors: [] };
+  for (const file of files) {
+    try {
+      const { file: processed, issues } = await preprocessImage(file);
+      prepared.photos.push({ ...createProductPhoto(processed), qualityIssues: issues });
+    } catch (err: any) {
+      prepared.errors.push(err.message || `${file.name} could not be read.`);
+    }
+  }
+  return prepared;
+};
+
+export const addPhotos = (photos: ProductPhoto[], added: ProductPhoto[]): ProductPhoto[] =>
+  [...photos, ...added].slice(0, MAX_PHOTOS);
+
+// HEIC files often arrive without a MIME type, so the extension counts too
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith("image/") || /\.(hei[cf]|jpe?g|png|webp|svg)$/i.test(file.name);
+
+export const removePhoto = (photos: ProductPhoto[], id: string): ProductPhoto[] =>
+  photos.filter(photo => photo.id !== id);
+
+// Moves a photo one place left (-1) or right (+1)
+export const movePhoto = (photos: ProductPhoto[], id: string, direction: -1 | 1): ProductPhoto[] => {
+  const from = photos.findIndex(photo => photo.id === id);
+  const to = from + direction;
+  if (from < 0 || to < 0 || to >= photos.length) return photos;
+  const next = [...photos];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
+
+// The cover is always the first photo
+export const setCoverPhoto = (photos: ProductPhoto[], id: string): ProductPhoto[] => {
+  const photo = photos.find(candidate => candidate.id === id);
+  return photo ? [photo, ...photos.filter(candidate => candidate.id !== id)] : photos;
+};
+
+export const updatePhoto = (photos: ProductPhoto[], id: string, changes: Partial<Pick<ProductPhoto, "caption" | "altText">>): ProductPhoto[] =>
+  photos.map(photo => (photo.id === id ? { ...photo, ...changes } : photo));
@@ -0,0 +1,107 @@
+import { GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { AiProvider, ImageGenerationRequest, ImageInput, JsonGenerationRequest, ProviderUsage } from "../aiProvider";
+import { AiError } from "../errors";
+
+const TEXT_MODEL = "gemini-2.5-flash"; // Using 2.5 flash as recommended for general tasks + speed
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+
+const toInlinePart = (image: ImageInput) => ({
+  inlineData: {
+    data: image.data,
+    mimeType: image.mimeType,
+  },
+});
+
+const BLOCKED_FINISH_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "IMAGE_SAFETY"];
+
+// A blocked prompt or answer comes back as a normal response with no content
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new AiError("safety", "The request was blocked by the AI service's safety filters.", { cause: blockReason || finishReason });
+  }
+};
+
+// Thinking tokens are billed as output
+const toUsage = (model: string, metadata: GenerateContentResponseUsageMetadata | undefined, images = 0): ProviderUsage => ({
+  model,
+  inputTokens: metadata?.promptTokenCount ?? 0,
+  outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+  images,
+});
+
+export const createGeminiProvider = (): AiProvider => {
+  if (!process.env.API_KEY) {
+    throw new AiError("missingKey", "API Key is missing. Please check your environment variables.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  return {
+    name: "gemini",
+
+    generateJson: async ({ prompt, systemInstruction, images = [], schema, signal, onPartialText, onUsage }: JsonGenerationRequest) => {
+      const params = {
+        model: TEXT_MODEL,
+        contents: { parts: [{ text: prompt }, ...images.map(toInlinePart)] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          systemInstruction,
+          abortSignal: signal,
+        },
+      };
+
+      if (onPartialText) {
+        let text = "";
+        // Running totals; the last chunk carries the final counts
+        let metadata: GenerateContentResponseUsageMetadata | undefined;
+        for await (const chunk of await ai.models.generateContentStream(params)) {
+          assertNotBlocked(chunk);
+          text += chunk.text ?? "";
+          metadata = chunk.usageMetadata ?? metadata;
+          onPartialText(text);
+        }
+        if (!text) throw new AiError("invalidJson", "The AI returned an empty response.");
+        onUsage?.(toUsage(TEXT_MODEL, metadata));
+        return text;
+      }
+
+      const response = await ai.models.generateContent(params);
+
+      assertNotBlocked(response);
+      const text = response.text;
+      if (!text) throw new AiError("invalidJson", "The AI returned an empty response.");
+      onUsage?.(toUsage(TEXT_MODEL, response.usageMetadata));
+      return text;
+    },
+
+    generateImage: async ({ prompt, images = [], aspectRatio = "1:1", signal, onUsage }: ImageGenerationRequest) => {
+      const response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        // Reference images go first so the instruction reads as an edit of them
+        contents: { parts: [...images.map(toInlinePart), { text: prompt }] },
+        config: {
+          // No responseMimeType/responseSchema for nano banana series
+          imageConfig: { aspectRatio },
+          abortSignal: signal,
+        }
+      });
+
+      assertNotBlocked(response);
+      // Iterate through parts to find the image
+      const content = response.candidates?.[0]?.content;
+      if (content?.parts) {
+        for (const part of content.parts) {
+          if (part.inlineData && part.inlineData.data) {
+            onUsage?.(toUsage(IMAGE_MODEL, response.usageMetadata, 1));
+            return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+          }
+        }
+      }
+
+      throw new Error("No image generated by the model.");
+    },
+  };
+};
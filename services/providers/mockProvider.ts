@@ -0,0 +1,127 @@
+import { Schema, Type } from "@google/genai";
+import { AiProvider, ImageAspectRatio, ImageGenerationRequest, JsonGenerationRequest } from "../aiProvider";
+import { throwIfAborted } from "../errors";
+import { estimateTokens } from "../usageCosts";
+
+// Deterministic, offline provider for demos and UI work. The same input always
+// produces the same output, and nothing leaves the browser.
+
+const MOCK_LATENCY_MS = 400;
+// Streams arrive in this many pieces so progressive rendering can be tried offline
+const MOCK_STREAM_CHUNKS = 20;
+
+const SAMPLE_LISTINGS: Record<string, unknown>[] = [
+  {
+    productName: "Handcrafted Ankara Tote Bag",
+    shortDescription: "Carry your essentials in bold African style. This roomy Ankara tote is lined, sturdy and made by local artisans.",
+    longDescription: "Our Handcrafted Ankara Tote Bag pairs vibrant wax-print fabric with a durable canvas lining and reinforced straps. It fits a laptop, groceries or a full day's essentials, and the inner zip pocket keeps your phone and keys safe. Perfect for work, market runs and weekend outings.",
+    suggestedPrice: { min: 12000, max: 15000, recommended: 13500, currency: "NGN", rationale: "Similar handmade Ankara totes on Jumia Nigeria sell between ₦12,000 and ₦15,000." },
+    seoKeywords: ["ankara tote bag", "african print bag", "handmade bag nigeria", "wax print tote", "lagos fashion accessories"],
+    hashtags: ["#AnkaraStyle", "#MadeInNigeria", "#ToteBag", "#AfricanPrint", "#LagosFashion", "#Handmade", "#ShopLocal", "#NaijaBusiness", "#EverydayBag", "#AnkaraBag"],
+    socialMediaPost: "✨ Your new everyday favourite is here! 👜 Bold Ankara print, roomy inside and built to last. Limited pieces available — send us a DM to order yours today! 🛍️",
+    targetAudience: "Style-conscious women aged 20-40 who want practical, locally made accessories.",
+  },
+  {
+    productName: "Premium Men's Embroidered Kaftan",
+    shortDescription: "Make a statement at every occasion. Rich fabric, fine embroidery and a tailored fit.",
+    longDescription: "This Premium Men's Embroidered Kaftan is cut from soft, breathable fabric with detailed hand-finished embroidery on the neckline and cuffs. The relaxed yet tailored fit keeps you comfortable from Friday prayers to owambe parties. Available in multiple sizes and colours.",
+    suggestedPrice: { min: 25000, max: 35000, recommended: 29500, currency: "NGN", rationale: "Embroidered kaftans of this quality list for ₦25,000 to ₦35,000 on Jumia Nigeria." },
+    seoKeywords: ["men's kaftan", "embroidered kaftan nigeria", "native wear for men", "senator wear", "owambe outfit"],
+    hashtags: ["#Kaftan", "#NativeWear", "#MensFashion", "#SenatorStyle", "#Owambe", "#NaijaStyle", "#MadeInNigeria", "#Tailored", "#AfricanFashion", "#ShopLocal"],
+    socialMediaPost: "👑 Dress like royalty this weekend! Our embroidered kaftans are tailored to impress. 🔥 Order now and get it delivered within Lagos in 48 hours. 📦",
+    targetAudience: "Men aged 25-55 shopping for traditional wear for events and weekends.",
+  },
+];
+
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Builds a value for any schema node, preferring the sample fixture when the key matches
+const synthesize = (schema: Schema, key: string, seed: number, sample: Record<string, unknown>): unknown => {
+  if (key in sample && schema.type !== Type.OBJECT) {
+    const value = sample[key];
+    // A schema can reuse a listing key for another shape, e.g. an array of caption variants
+    const sameShape = Array.isArray(value) === (schema.type === Type.ARRAY);
+    if (sameShape && (!schema.enum || schema.enum.includes(value as string))) return value;
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const nested = sample[key];
+      const childSample = nested && typeof nested === "object" ? (nested as Record<string, unknown>) : sample;
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([childKey, child]) => [
+          childKey,
+          synthesize(child, childKey, seed, childSample),
+        ])
+      );
+    }
+    case Type.ARRAY: {
+      const count = Number(schema.minItems || 3);
+      return Array.from({ length: count }, (_, i) => synthesize(schema.items || { type: Type.STRING }, `${key}`, seed + i, {}));
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return (seed % 50 + 1) * 500;
+    case Type.BOOLEAN:
+      return seed % 2 === 0;
+    default:
+      return schema.enum ? schema.enum[seed % schema.enum.length] : `Sample ${key} ${seed % 100}`;
+  }
+};
+
+const placeholderImage = (prompt: string, aspectRatio: ImageAspectRatio): string => {
+  const hue = hashString(prompt) % 360;
+  const [ratioW, ratioH] = aspectRatio.split(":").map(Number);
+  const width = 1024;
+  const height = Math.round((width * ratioH) / ratioW);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0" stop-color="hsl(${hue},70%,85%)"/><stop offset="1" stop-color="hsl(${(hue + 40) % 360},70%,60%)"/>
+  </linearGradient></defs>
+  <rect width="${width}" height="${height}" fill="url(#g)"/>
+  <text x="${width / 2}" y="${height / 2}" font-family="Inter, sans-serif" font-size="56" font-weight="bold" fill="white" text-anchor="middle">Mock Product Shot</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+export const createMockProvider = (): AiProvider => ({
+  name: "mock",
+
+  generateJson: async ({ prompt, images = [], schema, signal, onPartialText, onUsage }: JsonGenerationRequest) => {
+    await delay(MOCK_LATENCY_MS);
+    throwIfAborted(signal);
+    const seed = hashString(prompt + images.map(image => image.data.length).join(","));
+    const sample = SAMPLE_LISTINGS[seed % SAMPLE_LISTINGS.length];
+    const text = JSON.stringify(synthesize(schema, "", seed, sample));
+
+    if (onPartialText) {
+      const step = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+      for (let end = step; end < text.length + step; end += step) {
+        await delay(MOCK_LATENCY_MS / 4);
+        throwIfAborted(signal);
+        onPartialText(text.slice(0, end));
+      }
+    }
+    onUsage?.({ model: "mock", inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text), images: 0 });
+    return text;
+  },
+
+  generateImage: async ({ prompt, images = [], aspectRatio = "1:1", signal, onUsage }: ImageGenerationRequest) => {
+    await delay(MOCK_LATENCY_MS);
+    throwIfAborted(signal);
+    onUsage?.({ model: "mock", inputTokens: estimateTokens(prompt), outputTokens: 0, images: 1 });
+    // Echo the reference photo so the branding overlay has something real to sit on
+    if (images.length > 0) {
+      return `data:${images[0].mimeType};base64,${images[0].data}`;
+    }
+    return placeholderImage(prompt, aspectRatio);
+  },
+});
@@ -0,0 +1,205 @@
+import { Schema } from "@google/genai";
+import { AiProvider, ImageAspectRatio, ImageGenerationRequest, ImageInput, JsonGenerationRequest, ProviderUsage } from "../aiProvider";
+import { AiError, httpError } from "../errors";
+
+// Works with OpenAI and any server exposing the same /chat/completions and /images routes
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_TEXT_MODEL = "gpt-4o-mini";
+const DEFAULT_IMAGE_MODEL = "gpt-image-1";
+
+// gpt-image-1 only offers three sizes, so each ratio maps to the closest one
+const IMAGE_SIZES: Record<ImageAspectRatio, string> = {
+  "1:1": "1024x1024",
+  "4:5": "1024x1536",
+  "9:16": "1024x1536",
+  "16:9": "1536x1024",
+  "21:9": "1536x1024",
+};
+
+const getConfig = () => {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new AiError("missingKey", "OpenAI API Key is missing. Please check your environment variables.");
+  }
+  return {
+    apiKey: process.env.OPENAI_API_KEY,
+    baseUrl: (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    textModel: process.env.OPENAI_MODEL || DEFAULT_TEXT_MODEL,
+    imageModel: process.env.OPENAI_IMAGE_MODEL || DEFAULT_IMAGE_MODEL,
+  };
+};
+
+// Gemini schemas use upper-case type names; JSON Schema wants lower-case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  if (schema.minItems) result.minItems = Number(schema.minItems);
+  if (schema.maxItems) result.maxItems = Number(schema.maxItems);
+  if (schema.maxLength) result.maxLength = Number(schema.maxLength);
+  return result;
+};
+
+// Chat completions report prompt/completion tokens; the images API reports input/output tokens
+const toUsage = (model: string, usage: any, images = 0): ProviderUsage => ({
+  model,
+  inputTokens: usage?.prompt_tokens ?? usage?.input_tokens ?? 0,
+  outputTokens: usage?.completion_tokens ?? usage?.output_tokens ?? 0,
+  images,
+});
+
+const toDataUrl = (image: ImageInput) => `data:${image.mimeType};base64,${image.data}`;
+
+const dataToBlob = (image: ImageInput): Blob => {
+  const binary = atob(image.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: image.mimeType });
+};
+
+const request = async (url: string, apiKey: string, init: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Authorization: `Bearer ${apiKey}`, ...init.headers },
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw httpError(response.status, detail, response.headers.get("retry-after"));
+  }
+  return response.json();
+};
+
+// Reads a server-sent event stream of chat completion deltas, reporting the text so far
+const readStream = async (response: Response, onPartialText: (text: string) => void): Promise<{ text: string; usage: unknown }> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  let usage: unknown;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, "").trim();
+      if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+      const event = JSON.parse(data);
+      // Sent as a final chunk with no choices when include_usage is on
+      if (event.usage) usage = event.usage;
+      const choice = event.choices?.[0];
+      if (choice?.finish_reason === "content_filter") {
+        throw new AiError("safety", "The request was blocked by the AI service's safety filters.");
+      }
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onPartialText(text);
+      }
+    }
+  }
+  return { text, usage };
+};
+
+export const createOpenAiProvider = (): AiProvider => {
+  const config = getConfig();
+
+  return {
+    name: "openai",
+
+    generateJson: async ({ prompt, systemInstruction, images = [], schema, signal, onPartialText, onUsage }: JsonGenerationRequest) => {
+      const messages: any[] = [];
+      if (systemInstruction) {
+        messages.push({ role: "system", content: systemInstruction });
+      }
+      messages.push({
+        role: "user",
+        content: [
+          { type: "text", text: prompt },
+          ...images.map(image => ({ type: "image_url", image_url: { url: toDataUrl(image) } })),
+        ],
+      });
+
+      const body = {
+        model: config.textModel,
+        messages,
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "merchant_ai_output", schema: toJsonSchema(schema) },
+        },
+      };
+
+      if (onPartialText) {
+        const response = await fetch(`${config.baseUrl}/chat/completions`, {
+          method: "POST",
+          signal,
+          headers: { Authorization: `Bearer ${config.apiKey}`, "Content-Type": "application/json" },
+          body: JSON.stringify({ ...body, stream: true, stream_options: { include_usage: true } }),
+        });
+        if (!response.ok) {
+          const detail = await response.text().catch(() => "");
+          throw httpError(response.status, detail, response.headers.get("retry-after"));
+        }
+        const { text, usage } = await readStream(response, onPartialText);
+        if (!text) throw new AiError("invalidJson", "The AI returned an empty response.");
+        onUsage?.(toUsage(config.textModel, usage));
+        return text;
+      }
+
+      const json = await request(`${config.baseUrl}/chat/completions`, config.apiKey, {
+        method: "POST",
+        signal,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      const choice = json.choices?.[0];
+      if (choice?.message?.refusal || choice?.finish_reason === "content_filter") {
+        throw new AiError("safety", "The request was blocked by the AI service's safety filters.", { cause: choice.message?.refusal });
+      }
+      const text = choice?.message?.content;
+      if (!text) throw new AiError("invalidJson", "The AI returned an empty response.");
+      onUsage?.(toUsage(config.textModel, json.usage));
+      return text;
+    },
+
+    generateImage: async ({ prompt, images = [], aspectRatio = "1:1", signal, onUsage }: ImageGenerationRequest) => {
+      const size = IMAGE_SIZES[aspectRatio];
+      let json: any;
+      if (images.length > 0) {
+        // Edits endpoint takes the reference image as multipart form data
+        const form = new FormData();
+        form.append("model", config.imageModel);
+        form.append("prompt", prompt);
+        form.append("size", size);
+        images.forEach((image, i) => form.append("image[]", dataToBlob(image), `reference-${i}.png`));
+        json = await request(`${config.baseUrl}/images/edits`, config.apiKey, { method: "POST", signal, body: form });
+      } else {
+        json = await request(`${config.baseUrl}/images/generations`, config.apiKey, {
+          method: "POST",
+          signal,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ model: config.imageModel, prompt, size }),
+        });
+      }
+
+      const image = json.data?.[0];
+      if (image?.b64_json || image?.url) onUsage?.(toUsage(config.imageModel, json.usage, 1));
+      if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+      if (image?.url) return image.url;
+
+      throw new Error("No image generated by the model.");
+    },
+  };
+};
@@ -0,0 +1,81 @@
+import { AiProvider, ImageGenerationRequest, JsonGenerationRequest, ProviderUsage } from "../aiProvider";
+import { AiError, httpError } from "../errors";
+import { ErrorCode } from "../../types";
+
+// Same origin by default; the Vite dev server forwards /api to the local API server
+export const apiUrl = (path: string): string => `${(process.env.API_BASE_URL || "").replace(/\/+$/, "")}${path}`;
+
+// The server classifies failures itself; fall back to the status for anything in between (e.g. a gateway)
+export const readError = async (response: Response): Promise<AiError> => {
+  const detail = await response.text().catch(() => "");
+  try {
+    const { error } = JSON.parse(detail) as { error?: { code?: ErrorCode; message?: string; retryAfterMs?: number } };
+    if (error?.code && error.message) return new AiError(error.code, error.message, { retryAfterMs: error.retryAfterMs });
+  } catch {
+    // Not one of ours
+  }
+  return httpError(response.status, detail, response.headers.get("retry-after"));
+};
+
+const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(apiUrl(path), {
+    method: "POST",
+    signal,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw await readError(response);
+  return response;
+};
+
+// Reads the server's newline-delimited JSON stream of text deltas
+const readStream = async (response: Response, onPartialText: (text: string) => void): Promise<{ text: string; usage?: ProviderUsage }> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const message = JSON.parse(line);
+      if (message.error) throw new AiError(message.error.code, message.error.message, { retryAfterMs: message.error.retryAfterMs });
+      if (message.done) return { text, usage: message.usage };
+      if (message.delta) {
+        text += message.delta;
+        onPartialText(text);
+      }
+    }
+  }
+  // The connection dropped before the final line
+  throw new AiError("network", "The connection closed before the response finished.");
+};
+
+// Talks to the API server in server/, which holds the real provider keys
+export const createProxyProvider = (): AiProvider => ({
+  name: "proxy",
+
+  generateJson: async ({ prompt, systemInstruction, images, schema, signal, onPartialText, onUsage }: JsonGenerationRequest) => {
+    const stream = Boolean(onPartialText);
+    const response = await post("/api/generate-json", { prompt, systemInstruction, images, schema, stream }, signal);
+    const { text, usage } = onPartialText && response.headers.get("content-type")?.includes("ndjson")
+      ? await readStream(response, onPartialText)
+      : await response.json() as { text?: string; usage?: ProviderUsage };
+    if (!text) throw new AiError("invalidJson", "The AI returned an empty response.");
+    if (usage) onUsage?.(usage);
+    return text;
+  },
+
+  generateImage: async ({ prompt, images, aspectRatio, signal, onUsage }: ImageGenerationRequest) => {
+    const response = await post("/api/generate-image", { prompt, images, aspectRatio }, signal);
+    const { imageUrl, usage } = await response.json() as { imageUrl?: string; usage?: ProviderUsage };
+    if (!imageUrl) throw new Error("No image generated by the model.");
+    if (usage) onUsage?.(usage);
+    return imageUrl;
+  },
+});
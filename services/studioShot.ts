@@ -0,0 +1,210 @@
+import { isolateProductImage } from "./geminiService";
+
+export type ShadowStyle = "none" | "soft" | "contact";
+
+// How the cut-out product is placed on its plain background
+export interface StudioShotOptions {
+  background: string;
+  // Empty space on each side, as a fraction of the canvas
+  padding: number;
+  shadow: ShadowStyle;
+}
+
+export type CutoutMethod = "local" | "ai";
+
+export interface StudioShotResult {
+  imageUrl: string;
+  // "ai" when the photo was too busy to cut out in the browser
+  method: CutoutMethod;
+}
+
+export const DEFAULT_STUDIO_OPTIONS: StudioShotOptions = {
+  background: "#ffffff",
+  padding: 0.1,
+  shadow: "soft",
+};
+
+// White first: Jumia and most marketplaces require it for the main image
+export const STUDIO_BACKGROUNDS = ["#ffffff", "#f1f5f9", "#fef3c7", "#fce7f3", "#dbeafe", "#111827"];
+
+export const SHADOW_LABELS: Record<ShadowStyle, string> = {
+  none: "No shadow",
+  soft: "Soft drop shadow",
+  contact: "Floor shadow",
+};
+
+const OUTPUT_SIZE = 1200;
+const WORKING_SIZE = 1024;
+// Border pixels this far apart mean a busy scene rather than a backdrop
+const MAX_BORDER_SPREAD = 45;
+// How far (RGB distance) a pixel may be from the backdrop and still count as background
+const BACKGROUND_TOLERANCE = 48;
+// Smooth gradients (a backdrop going into shadow) are followed step by step
+const STEP_TOLERANCE = 10;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not read the photo."));
+    img.src = src;
+  });
+
+const loadFile = async (file: File): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(file);
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const distance = (data: Uint8ClampedArray, i: number, r: number, g: number, b: number) =>
+  Math.sqrt((data[i] - r) ** 2 + (data[i + 1] - g) ** 2 + (data[i + 2] - b) ** 2);
+
+// Cuts the product out of a photo shot on a fairly plain backdrop by flood-filling the backdrop
+// in from the edges. Returns null when the backdrop is too busy for this to be trusted.
+export const removeBackground = (img: HTMLImageElement): HTMLCanvasElement | null => {
+  const scale = Math.min(1, WORKING_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, width, height);
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+
+  // Average backdrop colour from the outer ring of pixels
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) border.push(y * width, y * width + width - 1);
+  const mean = [0, 1, 2].map(c => border.reduce((sum, p) => sum + data[p * 4 + c], 0) / border.length);
+  const spread = border.reduce((sum, p) => sum + distance(data, p * 4, mean[0], mean[1], mean[2]), 0) / border.length;
+  if (spread > MAX_BORDER_SPREAD) return null;
+
+  // Breadth-first flood fill from every backdrop-coloured border pixel
+  const isBackground = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+  for (const p of border) {
+    if (!isBackground[p] && distance(data, p * 4, mean[0], mean[1], mean[2]) < BACKGROUND_TOLERANCE) {
+      isBackground[p] = 1;
+      queue[tail++] = p;
+    }
+  }
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+    for (const n of neighbours) {
+      if (n < 0 || n >= width * height || isBackground[n]) continue;
+      const fromBackdrop = distance(data, n * 4, mean[0], mean[1], mean[2]);
+      const fromNeighbour = distance(data, n * 4, data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+      if (fromBackdrop < BACKGROUND_TOLERANCE || (fromNeighbour < STEP_TOLERANCE && fromBackdrop < BACKGROUND_TOLERANCE * 2)) {
+        isBackground[n] = 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+
+  // Nearly everything or nearly nothing removed means the fill leaked or missed
+  const foregroundShare = 1 - tail / (width * height);
+  if (foregroundShare < 0.03 || foregroundShare > 0.95) return null;
+
+  // Soften the edge with a 3x3 average of the mask, and find the product's bounds
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          sum += isBackground[ny * width + nx] ? 0 : 1;
+          count++;
+        }
+      }
+      const alpha = Math.round((sum / count) * 255);
+      data[(y * width + x) * 4 + 3] = alpha;
+      if (alpha > 128) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  if (maxX < minX || maxY < minY) return null;
+  ctx.putImageData(image, 0, 0);
+
+  const cutout = document.createElement("canvas");
+  cutout.width = maxX - minX + 1;
+  cutout.height = maxY - minY + 1;
+  cutout.getContext("2d")!.drawImage(canvas, minX, minY, cutout.width, cutout.height, 0, 0, cutout.width, cutout.height);
+  return cutout;
+};
+
+// Centres the cut-out on a square of solid colour
+export const composeStudioShot = (cutout: CanvasImageSource & { width: number; height: number }, options: StudioShotOptions): string => {
+  const canvas = document.createElement("canvas");
+  canvas.width = OUTPUT_SIZE;
+  canvas.height = OUTPUT_SIZE;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = options.background;
+  ctx.fillRect(0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+
+  const box = OUTPUT_SIZE * (1 - 2 * Math.min(0.4, Math.max(0, options.padding)));
+  const scale = Math.min(box / cutout.width, box / cutout.height);
+  const width = cutout.width * scale;
+  const height = cutout.height * scale;
+  const x = (OUTPUT_SIZE - width) / 2;
+  const y = (OUTPUT_SIZE - height) / 2;
+
+  if (options.shadow === "contact") {
+    const floor = y + height;
+    const gradient = ctx.createRadialGradient(OUTPUT_SIZE / 2, floor, 0, OUTPUT_SIZE / 2, floor, width / 2);
+    gradient.addColorStop(0, "rgba(0, 0, 0, 0.28)");
+    gradient.addColorStop(1, "rgba(0, 0, 0, 0)");
+    ctx.save();
+    ctx.translate(0, floor);
+    ctx.scale(1, 0.12);
+    ctx.translate(0, -floor);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x - width * 0.1, floor - width / 2, width * 1.2, width);
+    ctx.restore();
+  }
+
+  ctx.save();
+  if (options.shadow === "soft") {
+    ctx.shadowColor = "rgba(0, 0, 0, 0.22)";
+    ctx.shadowBlur = OUTPUT_SIZE * 0.03;
+    ctx.shadowOffsetY = OUTPUT_SIZE * 0.015;
+  }
+  ctx.drawImage(cutout, x, y, width, height);
+  ctx.restore();
+
+  return canvas.toDataURL("image/jpeg", 0.92);
+};
+
+// Tries the in-browser cut-out first; busy photos go to the model for a plain backdrop,
+// which is then cut out locally so padding and shadow still apply
+export const createStudioShot = async (
+  photo: File,
+  productName: string,
+  options: StudioShotOptions,
+  signal?: AbortSignal,
+  listingId: string | null = null
+): Promise<StudioShotResult> => {
+  const local = removeBackground(await loadFile(photo));
+  if (local) return { imageUrl: composeStudioShot(local, options), method: "local" };
+
+  const isolated = await loadImage(await isolateProductImage(photo, productName, signal, listingId));
+  // If even that can't be cut out, the model's own plain backdrop is used as is
+  return { imageUrl: composeStudioShot(removeBackground(isolated) ?? isolated, options), method: "ai" };
+};
@@ -0,0 +1,222 @@
+import { Branding } from "../types";
+import { ImageTemplate, LogoLayer, ShapeLayer, TemplateColor, TemplateTextField, TextLayer } from "./imageTemplates";
+
+export interface TemplateContent {
+  photoUrl: string | null;
+  logoUrl: string | null;
+  text: Partial<Record<TemplateTextField, string>>;
+}
+
+const LINE_HEIGHT = 1.2;
+const MAX_CACHED_IMAGES = 8;
+
+// Preview re-renders on every keystroke, so decoded images are kept around
+const imageCache = new Map<string, Promise<HTMLImageElement | null>>();
+
+const loadImage = (src: string): Promise<HTMLImageElement | null> => {
+  const cached = imageCache.get(src);
+  if (cached) return cached;
+
+  const promise = new Promise<HTMLImageElement | null>(resolve => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+  if (imageCache.size >= MAX_CACHED_IMAGES) imageCache.delete(imageCache.keys().next().value!);
+  imageCache.set(src, promise);
+  return promise;
+};
+
+const resolveColor = (color: TemplateColor, branding: Branding): string =>
+  color === "primary" ? branding.primaryColor : color === "accent" ? branding.accentColor : color;
+
+const fontFor = (layer: TextLayer, px: number, branding: Branding) =>
+  `${layer.bold ? "bold " : ""}${px}px "${layer.font === "heading" ? branding.headingFont : branding.bodyFont}", sans-serif`;
+
+// Greedy word wrap; the last line gets an ellipsis when the text doesn't fit
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+  kept[maxLines - 1] = `${last.trimEnd()}…`;
+  return kept;
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  ctx.beginPath();
+  if (ctx.roundRect) ctx.roundRect(x, y, width, height, radius);
+  else ctx.rect(x, y, width, height);
+  ctx.fill();
+};
+
+const drawPhoto = (
+  ctx: CanvasRenderingContext2D,
+  photo: HTMLImageElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  fit: "cover" | "contain"
+) => {
+  if (fit === "contain") {
+    // Whole photo, centred in the box
+    const scale = Math.min(width / photo.width, height / photo.height);
+    const dw = photo.width * scale;
+    const dh = photo.height * scale;
+    ctx.drawImage(photo, x + (width - dw) / 2, y + (height - dh) / 2, dw, dh);
+    return;
+  }
+  // Cover-fit: fill the box and crop the overflow evenly
+  const scale = Math.max(width / photo.width, height / photo.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.drawImage(photo, (photo.width - sw) / 2, (photo.height - sh) / 2, sw, sh, x, y, width, height);
+};
+
+const drawShape = (ctx: CanvasRenderingContext2D, layer: ShapeLayer, w: number, h: number, branding: Branding) => {
+  ctx.save();
+  ctx.globalAlpha = layer.opacity ?? 1;
+  ctx.fillStyle = resolveColor(layer.color, branding);
+  roundedRect(ctx, layer.x * w, layer.y * h, layer.width * w, layer.height * h, (layer.radius ?? 0) * w);
+  ctx.restore();
+};
+
+const drawLogo = (ctx: CanvasRenderingContext2D, layer: LogoLayer, logo: HTMLImageElement, w: number, h: number) => {
+  const box = layer.size * w;
+  const ratio = logo.width / logo.height;
+  const width = ratio >= 1 ? box : box * ratio;
+  const height = ratio >= 1 ? box / ratio : box;
+  const x = layer.align === "center" ? layer.x * w - width / 2 : layer.x * w;
+
+  ctx.save();
+  ctx.shadowColor = "rgba(0,0,0,0.5)";
+  ctx.shadowBlur = box * 0.08;
+  ctx.drawImage(logo, x, layer.y * h, width, height);
+  ctx.restore();
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: TextLayer, value: string, w: number, h: number, branding: Branding) => {
+  const px = layer.size * w;
+  const text = `${layer.prefix ?? ""}${value}`;
+  const label = layer.uppercase ? text.toUpperCase() : text;
+  const x = layer.x * w;
+  const y = layer.y * h;
+  const align = layer.align ?? "left";
+  const baseline = layer.baseline ?? "top";
+
+  ctx.save();
+  ctx.font = fontFor(layer, px, branding);
+  ctx.fillStyle = resolveColor(layer.color, branding);
+
+  if (layer.background) {
+    // Pill sized to the text, anchored the same way plain text would be
+    const padX = px * 0.5;
+    const padY = px * 0.35;
+    const boxW = ctx.measureText(label).width + padX * 2;
+    const boxH = px + padY * 2;
+    const left = align === "right" || align === "end" ? x - boxW : align === "center" ? x - boxW / 2 : x;
+    const top = baseline === "bottom" ? y - boxH : baseline === "middle" ? y - boxH / 2 : y;
+
+    ctx.save();
+    ctx.shadowColor = "rgba(0,0,0,0.3)";
+    ctx.shadowBlur = px * 0.3;
+    ctx.fillStyle = resolveColor(layer.background, branding);
+    roundedRect(ctx, left, top, boxW, boxH, px * 0.3);
+    ctx.restore();
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(label, left + boxW / 2, top + boxH / 2);
+    ctx.restore();
+    return;
+  }
+
+  if (layer.shadow) {
+    ctx.shadowColor = "rgba(0,0,0,0.8)";
+    ctx.shadowBlur = px * 0.2;
+  }
+  ctx.textAlign = align;
+  ctx.textBaseline = baseline;
+
+  const lines = layer.maxWidth ? wrapText(ctx, label, layer.maxWidth * w, layer.maxLines ?? 1) : [label];
+  const lineHeight = px * LINE_HEIGHT;
+  // Multi-line blocks grow away from their anchor
+  const offset = baseline === "bottom" ? -(lines.length - 1) * lineHeight : baseline === "middle" ? -((lines.length - 1) * lineHeight) / 2 : 0;
+
+  lines.forEach((line, i) => {
+    const lineY = y + offset + i * lineHeight;
+    ctx.fillText(line, x, lineY);
+
+    if (layer.strikethrough) {
+      const width = ctx.measureText(line).width;
+      const start = align === "right" || align === "end" ? x - width : align === "center" ? x - width / 2 : x;
+      const middle = baseline === "bottom" ? lineY - px * 0.45 : baseline === "middle" ? lineY : lineY + px * 0.55;
+      ctx.fillRect(start, middle - px * 0.04, width, px * 0.08);
+    }
+  });
+  ctx.restore();
+};
+
+// Draws a template onto a fresh canvas at the template's full size
+export const renderTemplate = async (
+  template: ImageTemplate,
+  content: TemplateContent,
+  branding: Branding
+): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = template.width;
+  canvas.height = template.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+
+  const [photo, logo] = await Promise.all([
+    content.photoUrl ? loadImage(content.photoUrl) : null,
+    content.logoUrl ? loadImage(content.logoUrl) : null,
+    // Brand fonts must be loaded before the canvas can draw with them
+    document.fonts.load(`bold 40px "${branding.headingFont}"`).catch(() => undefined),
+    document.fonts.load(`40px "${branding.bodyFont}"`).catch(() => undefined),
+  ]);
+
+  const { width: w, height: h } = template;
+  ctx.fillStyle = resolveColor(template.background ?? "#e2e8f0", branding);
+  ctx.fillRect(0, 0, w, h);
+
+  if (photo) {
+    const box = template.photo ?? { x: 0, y: 0, width: 1, height: 1 };
+    drawPhoto(ctx, photo, box.x * w, box.y * h, box.width * w, box.height * h, template.photoFit ?? "cover");
+  }
+
+  for (const layer of template.layers) {
+    if (layer.type === "rect") drawShape(ctx, layer, w, h, branding);
+    else if (layer.type === "logo") {
+      if (logo) drawLogo(ctx, layer, logo, w, h);
+    } else {
+      const value = content.text[layer.field]?.trim();
+      if (value) drawText(ctx, layer, value, w, h, branding);
+    }
+  }
+
+  return canvas;
+};
+
+export const renderTemplateToDataUrl = async (
+  template: ImageTemplate,
+  content: TemplateContent,
+  branding: Branding
+): Promise<string> => (await renderTemplate(template, content, branding)).toDataURL("image/png");
@@ -0,0 +1,33 @@
+import { ProviderUsage } from "./aiProvider";
+
+// List prices in US dollars; only used for estimates, never for billing
+interface ModelRate {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  // Image models are priced per picture rather than by output tokens
+  perImage?: number;
+}
+
+const MODEL_RATES: Record<string, ModelRate> = {
+  "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  "gemini-2.5-flash-image": { inputPerMillion: 0.3, outputPerMillion: 0, perImage: 0.039 },
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-image-1": { inputPerMillion: 5, outputPerMillion: 0, perImage: 0.042 },
+  mock: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+// Unknown models (e.g. a self-hosted OpenAI-compatible server) are costed like the default text model
+const FALLBACK_RATE = MODEL_RATES["gemini-2.5-flash"];
+
+export const estimateCostUsd = (usage: ProviderUsage): number => {
+  const rate = MODEL_RATES[usage.model] ?? FALLBACK_RATE;
+  const tokens = (usage.inputTokens * rate.inputPerMillion + usage.outputTokens * rate.outputPerMillion) / 1_000_000;
+  return tokens + usage.images * (rate.perImage ?? 0);
+};
+
+// Roughly four characters per token, like the real models
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Fractions of a cent matter when a listing costs $0.002
+export const formatUsd = (amount: number): string =>
+  amount === 0 ? "$0.00" : amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
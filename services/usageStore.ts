@@ -0,0 +1,134 @@
+import { UsageOperation, UsageRecord } from "../types";
+import { ProviderUsage } from "./aiProvider";
+import { USAGE_STORE, createId, runRequest } from "./db";
+import { AiError } from "./errors";
+import { estimateCostUsd, formatUsd } from "./usageCosts";
+
+export interface UsageTotals {
+  // Listing generations, however many model calls each one took
+  listings: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageLimits {
+  listings: number;
+  images: number;
+  costUsd?: number;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+}
+
+// Per browser, since sellers don't sign in. These only warn the seller early; the API server
+// enforces its own quotas, which a cleared browser can't get around.
+export const USAGE_LIMITS: { daily: UsageLimits; monthly: UsageLimits } = {
+  daily: { listings: 25, images: 15 },
+  monthly: { listings: 400, images: 200, costUsd: 10 },
+};
+
+// "text" covers rewrites and translations, which only count towards the monthly budget
+export type QuotaKind = "listing" | "image" | "text";
+
+export const IMAGE_OPERATIONS: UsageOperation[] = ["image", "imageEdit", "cutout"];
+
+// Quotas reset at local midnight and on the 1st of the month
+export const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+export const startOfMonth = (time: number): number => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const totalUsage = (records: UsageRecord[]): UsageTotals => ({
+  listings: new Set(records.filter(record => record.operation === "listing").map(record => record.requestId)).size,
+  images: records.reduce((sum, record) => sum + record.images, 0),
+  inputTokens: records.reduce((sum, record) => sum + record.inputTokens, 0),
+  outputTokens: records.reduce((sum, record) => sum + record.outputTokens, 0),
+  costUsd: records.reduce((sum, record) => sum + record.costUsd, 0),
+});
+
+const listeners = new Set<() => void>();
+
+// Lets the header meter and dashboard refresh after every model call
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = async (
+  fields: ProviderUsage & Pick<UsageRecord, "requestId" | "operation" | "listingId" | "outcome">
+): Promise<UsageRecord> => {
+  const record: UsageRecord = { ...fields, id: createId(), at: Date.now(), costUsd: estimateCostUsd(fields) };
+  await runRequest(USAGE_STORE, "readwrite", store => store.put(record));
+  listeners.forEach(listener => listener());
+  return record;
+};
+
+// Oldest first
+export const getUsageSince = (since: number): Promise<UsageRecord[]> =>
+  runRequest<UsageRecord[]>(USAGE_STORE, "readonly", store => store.index("at").getAll(IDBKeyRange.lowerBound(since)));
+
+export const getUsageSummary = async (now: number = Date.now()): Promise<UsageSummary> => {
+  const month = await getUsageSince(startOfMonth(now));
+  const dayStart = startOfDay(now);
+  return { today: totalUsage(month.filter(record => record.at >= dayStart)), month: totalUsage(month) };
+};
+
+// Null when the action is allowed
+export const quotaError = (summary: UsageSummary, kind: QuotaKind): AiError | null => {
+  const { daily, monthly } = USAGE_LIMITS;
+  if (monthly.costUsd !== undefined && summary.month.costUsd >= monthly.costUsd) {
+    return new AiError("limitReached", `This month's AI budget of ${formatUsd(monthly.costUsd)} is used up. It resets on the 1st.`);
+  }
+  if (kind === "listing" && summary.today.listings >= daily.listings) {
+    return new AiError("limitReached", `You've created ${daily.listings} listings today, the daily limit. It resets at midnight.`);
+  }
+  if (kind === "listing" && summary.month.listings >= monthly.listings) {
+    return new AiError("limitReached", `You've created ${monthly.listings} listings this month, the monthly limit. It resets on the 1st.`);
+  }
+  if (kind === "image" && summary.today.images >= daily.images) {
+    return new AiError("limitReached", `You've made ${daily.images} AI images today, the daily limit. It resets at midnight.`);
+  }
+  if (kind === "image" && summary.month.images >= monthly.images) {
+    return new AiError("limitReached", `You've made ${monthly.images} AI images this month, the monthly limit. It resets on the 1st.`);
+  }
+  return null;
+};
+
+// Actions that passed the check but haven't recorded any usage yet, so the items of a batch
+// can't all pass before the first one is counted
+const reserved: Record<QuotaKind, number> = { listing: 0, image: 0, text: 0 };
+
+const withReserved = (totals: UsageTotals): UsageTotals => ({
+  ...totals,
+  listings: totals.listings + reserved.listing,
+  images: totals.images + reserved.image,
+});
+
+// Throws when the action is over a limit; otherwise holds its place until the returned release
+// is called. A broken usage store (e.g. private browsing) must not lock the seller out.
+export const reserveQuota = async (kind: QuotaKind): Promise<() => void> => {
+  const summary = await getUsageSummary().catch(err => {
+    console.error("Usage load error:", err);
+    return null;
+  });
+  const error = summary && quotaError({ today: withReserved(summary.today), month: withReserved(summary.month) }, kind);
+  if (error) throw error;
+  reserved[kind] += 1;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    reserved[kind] -= 1;
+  };
+};
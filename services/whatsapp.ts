@@ -0,0 +1,144 @@
+import { AiError } from "./errors";
+import { downloadBlob } from "./download";
+import { truncate } from "./listingSchema";
+import { apiUrl, readError } from "./providers/proxyProvider";
+
+const WA_ME = "https://wa.me";
+
+// wa.me wants the full international number as bare digits: "0803 123 4567" in Nigeria is 2348031234567
+export const toWhatsAppNumber = (raw: string, dialingCode: string): string => {
+  const trimmed = raw.trim();
+  let digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("+")) return digits.length >= 8 ? digits : "";
+  if (digits.startsWith("00")) digits = digits.slice(2);
+  else if (digits.startsWith("0")) digits = dialingCode + digits.slice(1);
+  else if (!digits.startsWith(dialingCode) && digits.length <= 10) digits = dialingCode + digits;
+  return digits.length >= 8 ? digits : "";
+};
+
+// No number opens WhatsApp's contact picker, for sending the message on to a customer
+export const buildClickToChatUrl = (number: string, message: string): string =>
+  `${WA_ME}/${number}?text=${encodeURIComponent(message)}`;
+
+export interface OrderMessageFields {
+  productName: string;
+  price: string;
+  businessName?: string;
+  // Lets the seller match the chat to a catalog item
+  reference?: string;
+}
+
+// What the customer's WhatsApp is prefilled with when they tap the order link
+export const buildOrderMessage = ({ productName, price, businessName, reference }: OrderMessageFields): string =>
+  [
+    `Hello${businessName ? ` ${businessName}` : ""}! I'd like to order *${productName}* (${price}). Is it available?`,
+    reference && `Ref: ${reference}`,
+  ].filter(Boolean).join("\n");
+
+// The caption that travels with the shared image
+export const buildShareCaption = (post: string, orderUrl: string | null): string =>
+  orderUrl ? `${post}\n\nOrder on WhatsApp: ${orderUrl}` : post;
+
+export type ShareResult = "shared" | "cancelled" | "fallback";
+
+const dataUrlToFile = async (url: string, fileName: string): Promise<File> => {
+  const blob = await (await fetch(url)).blob();
+  return new File([blob], fileName, { type: blob.type || "image/png" });
+};
+
+// Image and caption together via the share sheet (mobile browsers); elsewhere the image is
+// downloaded and WhatsApp opens with the caption, so the seller only has to attach it
+export const shareImageWithCaption = async (imageUrl: string, caption: string, fileName: string): Promise<ShareResult> => {
+  const file = await dataUrlToFile(imageUrl, fileName);
+  if (typeof navigator.canShare === "function" && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], text: caption });
+      return "shared";
+    } catch (err) {
+      if ((err as { name?: string })?.name === "AbortError") return "cancelled";
+      console.error("Share error:", err);
+    }
+  }
+
+  downloadBlob(fileName, file);
+  window.open(`${WA_ME}/?text=${encodeURIComponent(caption)}`, "_blank", "noopener");
+  return "fallback";
+};
+
+// Cloud API message bodies (POST /{phone-number-id}/messages)
+export type CloudMessageType = "text" | "image" | "product";
+
+export interface CloudMessageFields {
+  to: string;
+  body: string;
+  // Publicly reachable image, for "image" messages
+  imageLink?: string;
+  // Catalog item, for "product" messages; the retailer id is the catalog CSV's id column
+  catalogId?: string;
+  productRetailerId?: string;
+}
+
+export type CloudMessagePayload = Record<string, unknown> & { messaging_product: "whatsapp"; to: string; type: string };
+
+// Values the chosen message type needs that the seller hasn't filled in
+export const missingCloudFields = (type: CloudMessageType, fields: CloudMessageFields): string[] =>
+  [
+    !fields.to && "recipient number",
+    type === "image" && !/^https:\/\//.test(fields.imageLink ?? "") && "public image URL (https)",
+    type === "product" && !fields.catalogId && "catalog ID",
+    type === "product" && !fields.productRetailerId && "product ID",
+  ].filter((field): field is string => Boolean(field));
+
+export const buildCloudMessage = (type: CloudMessageType, fields: CloudMessageFields): CloudMessagePayload => {
+  const base = { messaging_product: "whatsapp" as const, recipient_type: "individual", to: fields.to };
+  // Image captions and interactive bodies are capped at 1024 characters, text messages at 4096
+  if (type === "image") {
+    return { ...base, type: "image", image: { link: fields.imageLink, caption: truncate(fields.body, 1024) } };
+  }
+  if (type === "product") {
+    return {
+      ...base,
+      type: "interactive",
+      interactive: {
+        type: "product",
+        body: { text: truncate(fields.body, 1024) },
+        action: { catalog_id: fields.catalogId, product_retailer_id: fields.productRetailerId },
+      },
+    };
+  }
+  return { ...base, type: "text", text: { preview_url: true, body: truncate(fields.body, 4096) } };
+};
+
+const SEND_KEY_STORAGE_KEY = "merchant-ai:whatsapp-send-key";
+
+// The API server's WHATSAPP_SEND_KEY, kept on this device once the seller has entered it
+export const loadSendKey = (): string => {
+  try {
+    return localStorage.getItem(SEND_KEY_STORAGE_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export const saveSendKey = (key: string) => {
+  try {
+    localStorage.setItem(SEND_KEY_STORAGE_KEY, key);
+  } catch {
+    // Private browsing can block storage; the key has to be entered again next time
+  }
+};
+
+// Goes through the API server, which holds the Cloud API token; resolves to the message id
+export const sendCloudMessage = async (payload: CloudMessagePayload, sendKey: string, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(apiUrl("/api/whatsapp/messages"), {
+    method: "POST",
+    signal,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${sendKey}` },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) throw await readError(response);
+  const json = await response.json();
+  const id = json.messages?.[0]?.id;
+  if (!id) throw new AiError("unknown", "WhatsApp did not confirm the message.");
+  return id;
+};
@@ -1,14 +1,249 @@
+export interface PriceSuggestion {
+  min: number;
+  max: number;
+  recommended: number;
+  // ISO 4217 code, e.g. 'NGN'
+  currency: string;
+  rationale: string;
+}
+
 export interface GeneratedProductContent {
   productName: string;
   shortDescription: string;
   longDescription: string;
-  suggestedPrice: string;
+  suggestedPrice: PriceSuggestion;
   seoKeywords: string[];
   hashtags: string[];
   socialMediaPost: string;
   targetAudience: string;
 }
 
+export type MarketId = 'NG' | 'GH' | 'KE';
+
+// Everything that changes between the countries we sell into
+export interface MarketProfile {
+  id: MarketId;
+  country: string;
+  demonym: string;
+  // ISO 4217 code plus how shoppers write it
+  currency: string;
+  currencySymbol: string;
+  currencyName: string;
+  locale: string;
+  // Country calling code without the +, for wa.me links
+  dialingCode: string;
+  benchmarkMarketplace: string;
+  toneNotes: string;
+}
+
+// Listing fields the seller can edit and regenerate one at a time
+export type EditableField =
+  | 'productName'
+  | 'shortDescription'
+  | 'longDescription'
+  | 'socialMediaPost'
+  | 'seoKeywords'
+  | 'hashtags';
+
+// Text fields that are translated when a listing is shown in another language
+export type LocalizedCopy = Pick<GeneratedProductContent, EditableField>;
+
+export type LanguageCode = 'en' | 'pcm' | 'yo' | 'ha' | 'ig' | 'fr';
+
+export interface Branding {
+  businessName: string;
+  // Stored as a data URL so it survives a page refresh
+  logoUrl: string | null;
+  // Hex colours, e.g. "#4f46e5"
+  primaryColor: string;
+  accentColor: string;
+  headingFont: string;
+  bodyFont: string;
+  whatsappNumber: string;
+  tagline: string;
+  // Free-text voice for the copy, e.g. "Warm and playful"
+  defaultTone: string;
+}
+
+// A saved brand; listings keep a Branding snapshot of the kit they were made with
+export interface BrandKit extends Branding {
+  id: string;
+  updatedAt: number;
+}
+
+// Problems spotted on upload that are worth a retake before spending a generation
+export type ImageQualityIssue = 'blurry' | 'dark' | 'lowResolution';
+
+// A product shot uploaded by the seller; the first photo in a list is the cover
+export interface ProductPhoto {
+  id: string;
+  file: File;
+  // Written by the model during analysis and editable afterwards
+  caption: string;
+  altText: string;
+  qualityIssues?: ImageQualityIssue[];
+}
+
+// One generated or edited marketing photo and the instruction that produced it
+export interface ImageVersion {
+  id: string;
+  parentId: string | null;
+  imageUrl: string;
+  prompt: string;
+  createdAt: number;
+}
+
+export interface ImageVersionTree {
+  versions: Record<string, ImageVersion>;
+  currentId: string | null;
+  // Versions undone from the current one, nearest first
+  redoIds: string[];
+}
+
+export type CopyTone = 'standard' | 'luxury' | 'playful' | 'budget' | 'formal';
+export type CaptionLength = 'short' | 'medium' | 'long';
+export type EmojiLevel = 'none' | 'light' | 'heavy';
+export type TargetPlatform = 'general' | 'instagram' | 'facebook' | 'tiktok' | 'whatsapp' | 'marketplace';
+
+// How the copy is written; kept with each listing so its rewrites match and it can be reproduced
+export interface GenerationSettings {
+  tone: CopyTone;
+  captionLength: CaptionLength;
+  emojiLevel: EmojiLevel;
+  platform: TargetPlatform;
+  // Replaces the audience the model would infer; empty to let it decide
+  audience: string;
+}
+
+// Named settings the seller saved to reuse, e.g. "Luxury Instagram"
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  settings: GenerationSettings;
+}
+
+// Selling angles the A/B variants of a field are written from
+export type CopyAngle = 'urgency' | 'benefit' | 'socialProof' | 'price';
+
+// Listing fields that can be written several ways for split-testing
+export type VariantField = 'socialMediaPost' | 'shortDescription';
+
+// An alternative version of a field, in the listing's main language
+export interface CopyVariant {
+  id: string;
+  field: VariantField;
+  angle: CopyAngle;
+  text: string;
+  // Kept variants are the ones being split-tested; the rest are candidates to pick from
+  kept: boolean;
+  createdAt: number;
+}
+
+export interface SavedListing {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  textInput: string;
+  photos: ProductPhoto[];
+  data: GeneratedProductContent;
+  // Always the image of the current version in imageVersions
+  marketingImageUrl: string | null;
+  imageVersions: ImageVersionTree;
+  branding: Branding;
+  // Price typed over the suggestion by the seller; null keeps the recommended price
+  customPrice: number | null;
+  marketId: MarketId;
+  // Language `data` is written in, plus any side-by-side translations
+  language: LanguageCode;
+  translations: Partial<Record<LanguageCode, LocalizedCopy>>;
+  variants: CopyVariant[];
+  settings: GenerationSettings;
+}
+
+// What the seller did that called the model; listings and images count towards quotas
+export type UsageOperation = 'listing' | 'regenerate' | 'translate' | 'variants' | 'caption' | 'image' | 'imageEdit' | 'cutout';
+
+// One model call, kept for the usage dashboard and quota checks
+export interface UsageRecord {
+  id: string;
+  // Shared by the retries and repair calls of one action
+  requestId: string;
+  at: number;
+  operation: UsageOperation;
+  listingId: string | null;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  // Estimated in US dollars when the call was made
+  costUsd: number;
+  // Set when the action failed or was cancelled; its tokens are estimated from the prompt
+  outcome?: "failed" | "cancelled";
+}
+
+// Where a planned post goes out; each channel has its own caption style and image shape
+export type SocialChannel = 'instagram' | 'facebook' | 'tiktok' | 'whatsappStatus';
+
+// One slot in the content calendar: a saved listing posted to a channel at a set time
+export interface ScheduledPost {
+  id: string;
+  listingId: string;
+  channel: SocialChannel;
+  scheduledAt: number;
+  // Written for this slot, so the same product reads differently on each channel and day
+  caption: string;
+  // Snapshot of one of the listing's images, so later edits don't change a planned post
+  imageUrl: string | null;
+  // Minutes before scheduledAt to show a browser notification; null for no reminder
+  reminderMinutes: number | null;
+  remindedAt: number | null;
+  posted: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export enum BatchItemStatus {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  DONE = 'DONE',
+  FAILED = 'FAILED',
+}
+
+export interface BatchItem {
+  id: string;
+  // What the seller sees in the results table (file name or CSV row)
+  label: string;
+  imageFile: File | null;
+  textInput: string;
+  status: BatchItemStatus;
+  attempts: number;
+  error: string | null;
+  data: GeneratedProductContent | null;
+  listingId: string | null;
+}
+
+// Why a request failed; each kind gets its own advice in the UI
+export type ErrorCode =
+  | 'missingKey'
+  | 'quota'
+  | 'safety'
+  | 'network'
+  | 'unavailable'
+  | 'invalidJson'
+  | 'schemaMismatch'
+  | 'invalidInput'
+  | 'tooLarge'
+  | 'limitReached'
+  | 'cancelled'
+  | 'unknown';
+
+export interface ErrorInfo {
+  code: ErrorCode;
+  message: string;
+  // Set when the provider said how long to wait, e.g. after a 429
+  retryAfterMs?: number;
+}
+
 export enum GenerationStatus {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
@@ -19,11 +254,29 @@ export enum GenerationStatus {
 export interface AppState {
   status: GenerationStatus;
   data: GeneratedProductContent | null;
-  error: string | null;
-  selectedImage: File | null;
-  imagePreviewUrl: string | null;
+  // Fields received so far while a listing is streaming in
+  partialData: Partial<GeneratedProductContent> | null;
+  error: ErrorInfo | null;
+  photos: ProductPhoto[];
   textInput: string;
   // New properties for Image Generation
   isGeneratingImage: boolean;
+  imageError: ErrorInfo | null;
   marketingImageUrl: string | null;
+  imageVersions: ImageVersionTree;
+  branding: Branding;
+  customPrice: number | null;
+  marketId: MarketId;
+  language: LanguageCode;
+  translations: Partial<Record<LanguageCode, LocalizedCopy>>;
+  // Languages currently being translated in the background
+  translatingLanguages: LanguageCode[];
+  translationError: ErrorInfo | null;
+  variants: CopyVariant[];
+  isGeneratingVariants: boolean;
+  variantError: ErrorInfo | null;
+  // Settings the open listing was generated with
+  settings: GenerationSettings;
+  // Id of the saved listing currently shown, if any
+  activeListingId: string | null;
 }
\ No newline at end of file
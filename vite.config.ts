@@ -2,14 +2,29 @@ import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
   // Load env file based on `mode` in the current working directory.
   const env = loadEnv(mode, process.cwd(), '');
+
+  // The API server (`npm run server`) is built from the same sources and reads its env at runtime
+  if (isSsrBuild) {
+    return {
+      build: { target: 'node20' }
+    }
+  }
+
   return {
     plugins: [react()],
     define: {
-      // This ensures process.env.API_KEY is replaced with the actual value during build
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      // API keys stay on the server; the browser talks to it through /api.
+      // 'mock' is still honoured so the UI can run without the server.
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER === 'mock' ? 'mock' : 'proxy'),
+      'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL)
+    },
+    server: {
+      proxy: {
+        '/api': env.API_SERVER_URL || `http://localhost:${env.PORT || 8787}`
+      }
     }
   }
-})
\ No newline at end of file
+})